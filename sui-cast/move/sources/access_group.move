@@ -0,0 +1,93 @@
+module document_library::access_group {
+    use sui::event;
+    use std::string::{Self, String};
+
+    // === Structs ===
+
+    /// A named set of addresses (e.g. a course) that encrypted documents can be shared with
+    public struct AccessGroup has key {
+        id: UID,
+        name: String,
+        owner: address,
+        members: vector<address>,
+    }
+
+    // === Events ===
+
+    public struct AccessGroupCreated has copy, drop {
+        group_id: ID,
+        name: String,
+        owner: address,
+    }
+
+    public struct AccessGroupMembersChanged has copy, drop {
+        group_id: ID,
+        members: vector<address>,
+    }
+
+    // === Error Codes ===
+
+    const E_NOT_GROUP_OWNER: u64 = 0;
+    const E_ALREADY_MEMBER: u64 = 1;
+    const E_NOT_MEMBER: u64 = 2;
+
+    // === Public Functions ===
+
+    /// Create a shared access group owned by the sender
+    entry fun create_access_group(name: vector<u8>, ctx: &mut TxContext) {
+        let group = AccessGroup {
+            id: object::new(ctx),
+            name: string::utf8(name),
+            owner: tx_context::sender(ctx),
+            members: vector::empty(),
+        };
+
+        event::emit(AccessGroupCreated {
+            group_id: object::id(&group),
+            name: group.name,
+            owner: group.owner,
+        });
+
+        transfer::share_object(group);
+    }
+
+    /// Add a member to the group (owner only)
+    entry fun add_member(group: &mut AccessGroup, member: address, ctx: &TxContext) {
+        assert!(group.owner == tx_context::sender(ctx), E_NOT_GROUP_OWNER);
+        assert!(!is_member(group, member), E_ALREADY_MEMBER);
+
+        vector::push_back(&mut group.members, member);
+        emit_members_changed(group);
+    }
+
+    /// Remove a member from the group (owner only)
+    entry fun remove_member(group: &mut AccessGroup, member: address, ctx: &TxContext) {
+        assert!(group.owner == tx_context::sender(ctx), E_NOT_GROUP_OWNER);
+
+        let (found, index) = vector::index_of(&group.members, &member);
+        assert!(found, E_NOT_MEMBER);
+
+        vector::remove(&mut group.members, index);
+        emit_members_changed(group);
+    }
+
+    // === Helper Functions ===
+
+    fun emit_members_changed(group: &AccessGroup) {
+        event::emit(AccessGroupMembersChanged {
+            group_id: object::id(group),
+            members: group.members,
+        });
+    }
+
+    // === View Functions ===
+
+    /// The owner counts as a member
+    public fun is_member(group: &AccessGroup, addr: address): bool {
+        addr == group.owner || vector::contains(&group.members, &addr)
+    }
+
+    public fun get_group_info(group: &AccessGroup): (String, address, vector<address>) {
+        (group.name, group.owner, group.members)
+    }
+}
@@ -4,6 +4,8 @@ module document_library::document_system {
     use sui::event;
     use sui::clock::{Self, Clock};
     use std::string::{Self, String};
+    use sui::address;
+    use document_library::access_group::{Self, AccessGroup};
 
     // === Struct Definitions ===
     
@@ -19,11 +21,47 @@ module document_library::document_system {
         title: String,
         description: String,
         walrus_blob_id: String, // Document ID stored in Walrus
+        walrus_end_epoch: u64, // Walrus epoch the blob expires at (0 = unknown)
+        file_name: String, // Original filename, used for downloads
+        mime_type: String,
+        file_size: u64, // Bytes
+        encryption_id: vector<u8>, // Seal identity of the encrypted file (uploader address ++ nonce), empty if public
+        allowed_readers: vector<address>, // Encrypted documents only
+        allowed_groups: vector<ID>, // AccessGroup IDs whose members may decrypt
         uploader: address,
         upload_timestamp: u64,
         votes: u64,
         voters: vector<address>, // Prevent double voting
         category: String,
+        revision_note: String, // What the current revision changed, empty for the first one
+        revision_timestamp: u64, // When the current file was published
+        revisions: vector<DocumentRevision>, // Files replaced by later revisions, oldest first
+        hidden: bool, // Hidden by a moderator, left out of the library listing
+        reports: vector<DocumentReport>, // Open reports, cleared when a moderator restores the document
+    }
+
+    /// A file a document pointed to before a newer revision replaced it
+    public struct DocumentRevision has store, copy, drop {
+        walrus_blob_id: String,
+        walrus_end_epoch: u64,
+        file_name: String,
+        mime_type: String,
+        file_size: u64,
+        note: String,
+        timestamp: u64,
+    }
+
+    /// A user's report of a document, reviewed by moderators
+    public struct DocumentReport has store, copy, drop {
+        reporter: address,
+        reason: u8, // REASON_* constant
+        details: String,
+        timestamp: u64,
+    }
+
+    /// Lets its owner hide and restore documents; created for the publisher
+    public struct ModeratorCap has key, store {
+        id: UID,
     }
 
     public struct StudentProfile has key {
@@ -47,10 +85,56 @@ module document_library::document_system {
         uploader: address,
         title: String,
         walrus_blob_id: String,
+        walrus_end_epoch: u64,
         category: String,
         timestamp: u64,
     }
 
+    public struct DocumentStorageExtended has copy, drop {
+        document_id: ID,
+        walrus_end_epoch: u64,
+    }
+
+    public struct DocumentRevised has copy, drop {
+        document_id: ID,
+        revision: u64, // 1 is the original upload
+        walrus_blob_id: String,
+        walrus_end_epoch: u64,
+        note: String,
+        timestamp: u64,
+    }
+
+    public struct DocumentUpdated has copy, drop {
+        document_id: ID,
+        title: String,
+        description: String,
+        category: String,
+    }
+
+    public struct DocumentDeleted has copy, drop {
+        document_id: ID,
+        uploader: address,
+    }
+
+    public struct DocumentReported has copy, drop {
+        document_id: ID,
+        reporter: address,
+        reason: u8,
+        timestamp: u64,
+    }
+
+    public struct DocumentModerated has copy, drop {
+        document_id: ID,
+        moderator: address,
+        hidden: bool,
+    }
+
+    public struct DocumentAccessChanged has copy, drop {
+        document_id: ID,
+        allowed_readers: vector<address>,
+        allowed_groups: vector<ID>,
+    }
+
     public struct DocumentVoted has copy, drop {
         document_id: ID,
         voter: address,
@@ -68,6 +152,21 @@ module document_library::document_system {
     const E_CANNOT_VOTE_OWN_DOCUMENT: u64 = 1;
     const E_DOCUMENT_NOT_FOUND: u64 = 2;
     const E_PROFILE_NOT_FOUND: u64 = 3;
+    const E_NOT_UPLOADER: u64 = 4;
+    const E_STORAGE_NOT_EXTENDED: u64 = 5;
+    const E_INVALID_ENCRYPTION_ID: u64 = 6;
+    const E_NO_ACCESS: u64 = 7;
+    const E_NOT_ENCRYPTED: u64 = 8;
+    const E_REVISION_UNCHANGED: u64 = 9;
+    const E_ALREADY_REPORTED: u64 = 10;
+    const E_INVALID_REPORT_REASON: u64 = 11;
+
+    // === Report Reasons ===
+
+    const REASON_PLAGIARISM: u8 = 0;
+    const REASON_CHEATING_MATERIAL: u8 = 1;
+    const REASON_SPAM: u8 = 2;
+    const REASON_BROKEN_FILE: u8 = 3;
 
     // === Init Function ===
 
@@ -79,6 +178,7 @@ module document_library::document_system {
             total_documents: 0,
         };
         transfer::share_object(library);
+        transfer::transfer(ModeratorCap { id: object::new(ctx) }, tx_context::sender(ctx));
     }
 
     // === Public Functions ===
@@ -96,27 +196,52 @@ module document_library::document_system {
         transfer::transfer(profile, tx_context::sender(ctx));
     }
 
-    /// Upload a new document to the library
+    /// Upload a new document to the library, returns its ID
     entry fun upload_document(
         library: &mut DocumentLibrary,
         profile: &mut StudentProfile,
         title: vector<u8>,
         description: vector<u8>,
         walrus_blob_id: vector<u8>,
+        walrus_end_epoch: u64,
+        file_name: vector<u8>,
+        mime_type: vector<u8>,
+        file_size: u64,
+        encryption_id: vector<u8>,
+        allowed_readers: vector<address>,
+        allowed_groups: vector<ID>,
         category: vector<u8>,
         clock: &Clock,
         ctx: &mut TxContext
-    ) {
+    ): ID {
+        // The sender prefix keeps others from registering a policy for someone else's ciphertext
+        assert!(
+            vector::is_empty(&encryption_id) || has_address_prefix(&encryption_id, tx_context::sender(ctx)),
+            E_INVALID_ENCRYPTION_ID
+        );
+
         let document = Document {
             id: object::new(ctx),
             title: string::utf8(title),
             description: string::utf8(description),
             walrus_blob_id: string::utf8(walrus_blob_id),
+            walrus_end_epoch,
+            file_name: string::utf8(file_name),
+            mime_type: string::utf8(mime_type),
+            file_size,
+            encryption_id,
+            allowed_readers,
+            allowed_groups,
             uploader: tx_context::sender(ctx),
             upload_timestamp: clock::timestamp_ms(clock),
             votes: 0,
             voters: vector::empty(),
             category: string::utf8(category),
+            revision_note: string::utf8(b""),
+            revision_timestamp: clock::timestamp_ms(clock),
+            revisions: vector::empty(),
+            hidden: false,
+            reports: vector::empty(),
         };
 
         let document_id = object::id(&document);
@@ -137,9 +262,258 @@ module document_library::document_system {
             uploader: tx_context::sender(ctx),
             title: string::utf8(title),
             walrus_blob_id: string::utf8(walrus_blob_id),
+            walrus_end_epoch,
             category: string::utf8(category),
             timestamp: clock::timestamp_ms(clock),
         });
+
+        document_id
+    }
+
+    /// Record that the uploader extended the document's Walrus storage
+    entry fun extend_document_storage(
+        library: &mut DocumentLibrary,
+        document_id: ID,
+        walrus_end_epoch: u64,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        assert!(document.uploader == tx_context::sender(ctx), E_NOT_UPLOADER);
+        assert!(walrus_end_epoch > document.walrus_end_epoch, E_STORAGE_NOT_EXTENDED);
+
+        document.walrus_end_epoch = walrus_end_epoch;
+
+        event::emit(DocumentStorageExtended {
+            document_id,
+            walrus_end_epoch,
+        });
+    }
+
+    /// Publish a corrected file for a document (uploader only)
+    /// The document keeps its ID and votes; the replaced file stays listed as a past revision.
+    /// Encrypted documents keep their Seal identity, so the new file must be encrypted under it.
+    entry fun publish_revision(
+        library: &mut DocumentLibrary,
+        document_id: ID,
+        walrus_blob_id: vector<u8>,
+        walrus_end_epoch: u64,
+        file_name: vector<u8>,
+        mime_type: vector<u8>,
+        file_size: u64,
+        note: vector<u8>,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        assert!(document.uploader == tx_context::sender(ctx), E_NOT_UPLOADER);
+        let walrus_blob_id = string::utf8(walrus_blob_id);
+        assert!(walrus_blob_id != document.walrus_blob_id, E_REVISION_UNCHANGED);
+
+        vector::push_back(&mut document.revisions, DocumentRevision {
+            walrus_blob_id: document.walrus_blob_id,
+            walrus_end_epoch: document.walrus_end_epoch,
+            file_name: document.file_name,
+            mime_type: document.mime_type,
+            file_size: document.file_size,
+            note: document.revision_note,
+            timestamp: document.revision_timestamp,
+        });
+
+        let timestamp = clock::timestamp_ms(clock);
+        document.walrus_blob_id = walrus_blob_id;
+        document.walrus_end_epoch = walrus_end_epoch;
+        document.file_name = string::utf8(file_name);
+        document.mime_type = string::utf8(mime_type);
+        document.file_size = file_size;
+        document.revision_note = string::utf8(note);
+        document.revision_timestamp = timestamp;
+
+        event::emit(DocumentRevised {
+            document_id,
+            revision: vector::length(&document.revisions) + 1,
+            walrus_blob_id,
+            walrus_end_epoch,
+            note: document.revision_note,
+            timestamp,
+        });
+    }
+
+    /// Edit a document's title, description and category (uploader only)
+    entry fun update_document(
+        library: &mut DocumentLibrary,
+        document_id: ID,
+        title: vector<u8>,
+        description: vector<u8>,
+        category: vector<u8>,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        assert!(document.uploader == tx_context::sender(ctx), E_NOT_UPLOADER);
+
+        document.title = string::utf8(title);
+        document.description = string::utf8(description);
+        document.category = string::utf8(category);
+
+        event::emit(DocumentUpdated {
+            document_id,
+            title: document.title,
+            description: document.description,
+            category: document.category,
+        });
+    }
+
+    /// Remove a document from the library (uploader only)
+    /// The upload count and the upload's monthly points are taken back from the uploader's profile.
+    /// The Walrus blobs are not deleted; they expire at their end epoch.
+    entry fun delete_document(
+        library: &mut DocumentLibrary,
+        profile: &mut StudentProfile,
+        document_id: ID,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        assert!(profile.student_address == tx_context::sender(ctx), E_PROFILE_NOT_FOUND);
+        assert!(table::borrow(&library.documents, document_id).uploader == tx_context::sender(ctx), E_NOT_UPLOADER);
+
+        let Document { id, uploader, upload_timestamp, .. } = table::remove(&mut library.documents, document_id);
+        object::delete(id);
+        library.total_documents = library.total_documents - 1;
+
+        // A second profile of the same address may not hold the upload
+        if (profile.total_uploads > 0) {
+            profile.total_uploads = profile.total_uploads - 1;
+        };
+        remove_monthly_points(profile, month_of(upload_timestamp), 10);
+
+        event::emit(DocumentDeleted {
+            document_id,
+            uploader,
+        });
+    }
+
+    // === Moderation ===
+
+    /// Report a document to the moderators, once per reporter
+    entry fun report_document(
+        library: &mut DocumentLibrary,
+        document_id: ID,
+        reason: u8,
+        details: vector<u8>,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        assert!(reason <= REASON_BROKEN_FILE, E_INVALID_REPORT_REASON);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        let reporter = tx_context::sender(ctx);
+        assert!(!has_reported(document, reporter), E_ALREADY_REPORTED);
+
+        let timestamp = clock::timestamp_ms(clock);
+        vector::push_back(&mut document.reports, DocumentReport {
+            reporter,
+            reason,
+            details: string::utf8(details),
+            timestamp,
+        });
+
+        event::emit(DocumentReported {
+            document_id,
+            reporter,
+            reason,
+            timestamp,
+        });
+    }
+
+    /// Hide a document from the library listing (moderators only)
+    /// Its reports stay attached until the document is restored.
+    entry fun hide_document(_: &ModeratorCap, library: &mut DocumentLibrary, document_id: ID, ctx: &TxContext) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        document.hidden = true;
+
+        event::emit(DocumentModerated {
+            document_id,
+            moderator: tx_context::sender(ctx),
+            hidden: true,
+        });
+    }
+
+    /// Show a document again and dismiss its reports (moderators only)
+    entry fun restore_document(_: &ModeratorCap, library: &mut DocumentLibrary, document_id: ID, ctx: &TxContext) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        document.hidden = false;
+        document.reports = vector::empty();
+
+        event::emit(DocumentModerated {
+            document_id,
+            moderator: tx_context::sender(ctx),
+            hidden: false,
+        });
+    }
+
+    /// Make another address a moderator
+    entry fun add_moderator(_: &ModeratorCap, recipient: address, ctx: &mut TxContext) {
+        transfer::transfer(ModeratorCap { id: object::new(ctx) }, recipient);
+    }
+
+    /// Replace who may decrypt an encrypted document (uploader only)
+    entry fun set_document_access(
+        library: &mut DocumentLibrary,
+        document_id: ID,
+        allowed_readers: vector<address>,
+        allowed_groups: vector<ID>,
+        ctx: &TxContext
+    ) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+
+        let document = table::borrow_mut(&mut library.documents, document_id);
+        assert!(document.uploader == tx_context::sender(ctx), E_NOT_UPLOADER);
+        assert!(!vector::is_empty(&document.encryption_id), E_NOT_ENCRYPTED);
+
+        document.allowed_readers = allowed_readers;
+        document.allowed_groups = allowed_groups;
+
+        event::emit(DocumentAccessChanged {
+            document_id,
+            allowed_readers,
+            allowed_groups,
+        });
+    }
+
+    // === Seal Access Policy ===
+    // Seal key servers dry-run these to decide whether to release the key for `id`
+
+    /// Approve the uploader and addresses granted access directly
+    entry fun seal_approve(id: vector<u8>, library: &DocumentLibrary, document_id: ID, ctx: &TxContext) {
+        let document = borrow_encrypted_document(library, document_id, &id);
+        let sender = tx_context::sender(ctx);
+        assert!(
+            sender == document.uploader || vector::contains(&document.allowed_readers, &sender),
+            E_NO_ACCESS
+        );
+    }
+
+    /// Approve members of a group the document is shared with
+    entry fun seal_approve_group(
+        id: vector<u8>,
+        library: &DocumentLibrary,
+        document_id: ID,
+        group: &AccessGroup,
+        ctx: &TxContext
+    ) {
+        let document = borrow_encrypted_document(library, document_id, &id);
+        assert!(vector::contains(&document.allowed_groups, &object::id(group)), E_NO_ACCESS);
+        assert!(access_group::is_member(group, tx_context::sender(ctx)), E_NO_ACCESS);
     }
 
     /// Vote for a document
@@ -215,8 +589,42 @@ module document_library::document_system {
     // === Helper Functions ===
 
     fun get_current_month(clock: &Clock): u64 {
+        month_of(clock::timestamp_ms(clock))
+    }
+
+    fun month_of(timestamp_ms: u64): u64 {
         // Simple month calculation (should be more detailed in reality)
-        clock::timestamp_ms(clock) / (30 * 24 * 60 * 60 * 1000) // 30-day period
+        timestamp_ms / (30 * 24 * 60 * 60 * 1000) // 30-day period
+    }
+
+    fun borrow_encrypted_document(library: &DocumentLibrary, document_id: ID, id: &vector<u8>): &Document {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        let document = table::borrow(&library.documents, document_id);
+        assert!(!vector::is_empty(&document.encryption_id), E_NOT_ENCRYPTED);
+        assert!(*id == document.encryption_id, E_NO_ACCESS);
+        document
+    }
+
+    fun has_reported(document: &Document, reporter: address): bool {
+        let mut i = 0;
+        while (i < vector::length(&document.reports)) {
+            if (vector::borrow(&document.reports, i).reporter == reporter) return true;
+            i = i + 1;
+        };
+        false
+    }
+
+    fun has_address_prefix(bytes: &vector<u8>, addr: address): bool {
+        let prefix = address::to_bytes(addr);
+        let len = vector::length(&prefix);
+        if (vector::length(bytes) <= len) return false;
+
+        let mut i = 0;
+        while (i < len) {
+            if (*vector::borrow(bytes, i) != *vector::borrow(&prefix, i)) return false;
+            i = i + 1;
+        };
+        true
     }
 
     fun add_monthly_points(profile: &mut StudentProfile, month: u64, points: u64) {
@@ -231,6 +639,13 @@ module document_library::document_system {
         };
     }
 
+    fun remove_monthly_points(profile: &mut StudentProfile, month: u64, points: u64) {
+        if (!table::contains(&profile.monthly_points, month)) return;
+
+        let current_points = table::borrow_mut(&mut profile.monthly_points, month);
+        *current_points = if (*current_points > points) { *current_points - points } else { 0 };
+    }
+
     // === View Functions ===
 
     /// Get document information
@@ -247,6 +662,54 @@ module document_library::document_system {
         )
     }
 
+    /// Get the Walrus epoch a document's blob expires at
+    public fun get_document_end_epoch(library: &DocumentLibrary, document_id: ID): u64 {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        table::borrow(&library.documents, document_id).walrus_end_epoch
+    }
+
+    /// Get the original filename, MIME type and size of a document's file
+    public fun get_document_file(library: &DocumentLibrary, document_id: ID): (String, String, u64) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        let document = table::borrow(&library.documents, document_id);
+        (document.file_name, document.mime_type, document.file_size)
+    }
+
+    /// Get the Seal identity and the readers / groups of an encrypted document
+    public fun get_document_access(
+        library: &DocumentLibrary,
+        document_id: ID
+    ): (vector<u8>, vector<address>, vector<ID>) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        let document = table::borrow(&library.documents, document_id);
+        (document.encryption_id, document.allowed_readers, document.allowed_groups)
+    }
+
+    /// Get the current revision number of a document (1 until it is first revised)
+    public fun get_document_revision(library: &DocumentLibrary, document_id: ID): u64 {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        vector::length(&table::borrow(&library.documents, document_id).revisions) + 1
+    }
+
+    /// Get the blob, note and timestamp of a past revision (1 is the original upload)
+    public fun get_past_revision(library: &DocumentLibrary, document_id: ID, revision: u64): (String, String, u64) {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        let past = vector::borrow(&table::borrow(&library.documents, document_id).revisions, revision - 1);
+        (past.walrus_blob_id, past.note, past.timestamp)
+    }
+
+    /// Check whether a moderator hid a document
+    public fun is_document_hidden(library: &DocumentLibrary, document_id: ID): bool {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        table::borrow(&library.documents, document_id).hidden
+    }
+
+    /// Get the number of open reports of a document
+    public fun get_report_count(library: &DocumentLibrary, document_id: ID): u64 {
+        assert!(table::contains(&library.documents, document_id), E_DOCUMENT_NOT_FOUND);
+        vector::length(&table::borrow(&library.documents, document_id).reports)
+    }
+
     /// Get library statistics
     public fun get_library_stats(library: &DocumentLibrary): u64 {
         library.total_documents
@@ -2,6 +2,8 @@
 module document_library::document_library_tests {
     use document_library::document_system;
     use document_library::achievement_nft;
+    use document_library::access_group;
+    use sui::address;
     use sui::test_scenario as ts;
     use sui::clock;
 
@@ -42,6 +44,13 @@ module document_library::document_library_tests {
                 b"Test Document",
                 b"A comprehensive guide to Rust programming",
                 b"walrus_blob_123456",
+                10, // Walrus end epoch
+                b"rust-guide.pdf",
+                b"application/pdf",
+                48_213,
+                vector::empty(), // Public, not encrypted
+                vector::empty(),
+                vector::empty(),
                 b"Programming",
                 &clock,
                 ts::ctx(scenario)
@@ -103,6 +112,13 @@ module document_library::document_library_tests {
                 b"Voted Document",
                 b"This document will receive votes",
                 b"walrus_blob_789",
+                10, // Walrus end epoch
+                b"voted.md",
+                b"text/markdown",
+                1_024,
+                vector::empty(), // Public, not encrypted
+                vector::empty(),
+                vector::empty(),
                 b"Testing",
                 &clock,
                 ts::ctx(scenario)
@@ -133,6 +149,136 @@ module document_library::document_library_tests {
         ts::end(scenario_val);
     }
 
+    /// Uploads a document as `uploader` (who already has a profile), returns its ID
+    fun upload_test_document(scenario: &mut ts::Scenario, uploader: address, walrus_end_epoch: u64): ID {
+        ts::next_tx(scenario, uploader);
+        let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+        let mut profile = ts::take_from_sender<document_system::StudentProfile>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+
+        let document_id = document_system::upload_document(
+            &mut library,
+            &mut profile,
+            b"Expiring Document",
+            b"Stored on Walrus for a few epochs",
+            b"walrus_blob_expiring",
+            walrus_end_epoch,
+            b"notes.txt",
+            b"text/plain",
+            512,
+            vector::empty(),
+            vector::empty(),
+            vector::empty(),
+            b"Testing",
+            &clock,
+            ts::ctx(scenario)
+        );
+
+        ts::return_shared(library);
+        ts::return_to_sender(scenario, profile);
+        clock::destroy_for_testing(clock);
+        document_id
+    }
+
+    /// Creates the library and a profile for `uploader`
+    fun setup_library(scenario: &mut ts::Scenario, admin: address, uploader: address) {
+        ts::next_tx(scenario, admin);
+        document_system::init_for_testing(ts::ctx(scenario));
+
+        ts::next_tx(scenario, uploader);
+        document_system::create_student_profile(ts::ctx(scenario));
+    }
+
+    #[test]
+    fun test_extend_document_storage() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, uploader);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            assert!(document_system::get_document_end_epoch(&library, document_id) == 10, 0);
+
+            document_system::extend_document_storage(&mut library, document_id, 25, ts::ctx(scenario));
+            assert!(document_system::get_document_end_epoch(&library, document_id) == 25, 1);
+
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    fun test_upload_stores_file_metadata() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, uploader);
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let (file_name, mime_type, file_size) = document_system::get_document_file(&library, document_id);
+            assert!(file_name == std::string::utf8(b"notes.txt"), 0);
+            assert!(mime_type == std::string::utf8(b"text/plain"), 1);
+            assert!(file_size == 512, 2);
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 4, location = document_library::document_system)]
+    fun test_extend_storage_by_other_user_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let other = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, other);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::extend_document_storage(&mut library, document_id, 25, ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 5, location = document_library::document_system)]
+    fun test_extend_storage_to_earlier_epoch_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, uploader);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::extend_document_storage(&mut library, document_id, 10, ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
     #[test] 
     fun test_achievement_nft_minting() {
         let admin = @0xABCD;
@@ -226,4 +372,442 @@ module document_library::document_library_tests {
 
         ts::end(scenario_val);
     }
-}
\ No newline at end of file
+
+    // === Encrypted documents ===
+
+    fun encryption_id_of(uploader: address): vector<u8> {
+        let mut id = address::to_bytes(uploader);
+        vector::append(&mut id, b"nonce-1");
+        id
+    }
+
+    fun upload_encrypted_document(
+        scenario: &mut ts::Scenario,
+        uploader: address,
+        encryption_id: vector<u8>,
+        allowed_readers: vector<address>,
+        allowed_groups: vector<ID>
+    ): ID {
+        ts::next_tx(scenario, uploader);
+        let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+        let mut profile = ts::take_from_sender<document_system::StudentProfile>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+
+        let document_id = document_system::upload_document(
+            &mut library,
+            &mut profile,
+            b"Exam Prep",
+            b"Only for the course group",
+            b"walrus_blob_encrypted",
+            10,
+            b"exam.pdf",
+            b"application/pdf",
+            2_048,
+            encryption_id,
+            allowed_readers,
+            allowed_groups,
+            b"Testing",
+            &clock,
+            ts::ctx(scenario)
+        );
+
+        ts::return_shared(library);
+        ts::return_to_sender(scenario, profile);
+        clock::destroy_for_testing(clock);
+        document_id
+    }
+
+    #[test]
+    fun test_seal_approve_uploader_and_reader() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let reader = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_encrypted_document(
+            scenario, uploader, encryption_id_of(uploader), vector[reader], vector::empty()
+        );
+
+        ts::next_tx(scenario, uploader);
+        {
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::seal_approve(encryption_id_of(uploader), &library, document_id, ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::next_tx(scenario, reader);
+        {
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::seal_approve(encryption_id_of(uploader), &library, document_id, ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 7, location = document_library::document_system)]
+    fun test_seal_approve_stranger_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let stranger = @0x9999;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_encrypted_document(
+            scenario, uploader, encryption_id_of(uploader), vector::empty(), vector::empty()
+        );
+
+        ts::next_tx(scenario, stranger);
+        {
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::seal_approve(encryption_id_of(uploader), &library, document_id, ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    fun test_seal_approve_group_member() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let member = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+
+        // Uploader creates a course group and adds a member
+        ts::next_tx(scenario, uploader);
+        access_group::create_access_group(b"Exam 42", ts::ctx(scenario));
+        ts::next_tx(scenario, uploader);
+        let group_id = {
+            let mut group = ts::take_shared<access_group::AccessGroup>(scenario);
+            access_group::add_member(&mut group, member, ts::ctx(scenario));
+            let group_id = object::id(&group);
+            ts::return_shared(group);
+            group_id
+        };
+
+        let document_id = upload_encrypted_document(
+            scenario, uploader, encryption_id_of(uploader), vector::empty(), vector[group_id]
+        );
+
+        ts::next_tx(scenario, member);
+        {
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let group = ts::take_shared<access_group::AccessGroup>(scenario);
+            document_system::seal_approve_group(
+                encryption_id_of(uploader), &library, document_id, &group, ts::ctx(scenario)
+            );
+            ts::return_shared(group);
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 6, location = document_library::document_system)]
+    fun test_upload_with_foreign_encryption_id_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let victim = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        upload_encrypted_document(scenario, uploader, encryption_id_of(victim), vector::empty(), vector::empty());
+
+        ts::end(scenario_val);
+    }
+
+    /// Publishes a revision of `document_id` as `sender` pointing to `walrus_blob_id`
+    fun publish_test_revision(scenario: &mut ts::Scenario, sender: address, document_id: ID, walrus_blob_id: vector<u8>) {
+        ts::next_tx(scenario, sender);
+        let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+
+        document_system::publish_revision(
+            &mut library,
+            document_id,
+            walrus_blob_id,
+            20,
+            b"notes-v2.txt",
+            b"text/plain",
+            640,
+            b"Fixed the complexity analysis",
+            &clock,
+            ts::ctx(scenario)
+        );
+
+        ts::return_shared(library);
+        clock::destroy_for_testing(clock);
+    }
+
+    #[test]
+    fun test_publish_revision_keeps_votes() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let voter = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, voter);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let clock = clock::create_for_testing(ts::ctx(scenario));
+            document_system::vote_document(&mut library, document_id, &clock, ts::ctx(scenario));
+            ts::return_shared(library);
+            clock::destroy_for_testing(clock);
+        };
+
+        publish_test_revision(scenario, uploader, document_id, b"walrus_blob_revised");
+
+        {
+            ts::next_tx(scenario, uploader);
+            let library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let (_, _, blob_id, votes, _, _) = document_system::get_document_info(&library, document_id);
+            assert!(blob_id == std::string::utf8(b"walrus_blob_revised"), 0);
+            assert!(votes == 1, 1);
+            assert!(document_system::get_document_end_epoch(&library, document_id) == 20, 2);
+            assert!(document_system::get_document_revision(&library, document_id) == 2, 3);
+
+            let (past_blob_id, past_note, _) = document_system::get_past_revision(&library, document_id, 1);
+            assert!(past_blob_id == std::string::utf8(b"walrus_blob_expiring"), 4);
+            assert!(past_note == std::string::utf8(b""), 5);
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 4, location = document_library::document_system)]
+    fun test_publish_revision_by_other_user_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let other = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+        publish_test_revision(scenario, other, document_id, b"walrus_blob_revised");
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 9, location = document_library::document_system)]
+    fun test_publish_revision_with_same_blob_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+        publish_test_revision(scenario, uploader, document_id, b"walrus_blob_expiring");
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    fun test_update_document() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, uploader);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::update_document(
+                &mut library,
+                document_id,
+                b"Renamed Document",
+                b"A clearer description",
+                b"Algorithms",
+                ts::ctx(scenario)
+            );
+
+            let (title, description, blob_id, _, _, _) = document_system::get_document_info(&library, document_id);
+            assert!(title == std::string::utf8(b"Renamed Document"), 0);
+            assert!(description == std::string::utf8(b"A clearer description"), 1);
+            assert!(blob_id == std::string::utf8(b"walrus_blob_expiring"), 2);
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 4, location = document_library::document_system)]
+    fun test_update_document_by_other_user_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let other = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, other);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            document_system::update_document(&mut library, document_id, b"Mine now", b"", b"Testing", ts::ctx(scenario));
+            ts::return_shared(library);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    fun test_delete_document_updates_stats() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, uploader);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let mut profile = ts::take_from_sender<document_system::StudentProfile>(scenario);
+            assert!(document_system::get_monthly_points(&profile, 0) == 10, 0);
+
+            document_system::delete_document(&mut library, &mut profile, document_id, ts::ctx(scenario));
+
+            assert!(document_system::get_library_stats(&library) == 0, 1);
+            let (uploads, _, _) = document_system::get_student_stats(&profile);
+            assert!(uploads == 0, 2);
+            assert!(document_system::get_monthly_points(&profile, 0) == 0, 3);
+
+            ts::return_shared(library);
+            ts::return_to_sender(scenario, profile);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 4, location = document_library::document_system)]
+    fun test_delete_document_by_other_user_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let other = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+
+        {
+            ts::next_tx(scenario, other);
+            document_system::create_student_profile(ts::ctx(scenario));
+        };
+
+        {
+            ts::next_tx(scenario, other);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let mut profile = ts::take_from_sender<document_system::StudentProfile>(scenario);
+            document_system::delete_document(&mut library, &mut profile, document_id, ts::ctx(scenario));
+            ts::return_shared(library);
+            ts::return_to_sender(scenario, profile);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    /// Reports `document_id` as `reporter` with the given reason code
+    fun report_test_document(scenario: &mut ts::Scenario, reporter: address, document_id: ID, reason: u8) {
+        ts::next_tx(scenario, reporter);
+        let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+
+        document_system::report_document(&mut library, document_id, reason, b"Copied from last year's notes", &clock, ts::ctx(scenario));
+
+        ts::return_shared(library);
+        clock::destroy_for_testing(clock);
+    }
+
+    #[test]
+    fun test_moderator_hides_and_restores_reported_document() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let reporter = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+        report_test_document(scenario, reporter, document_id, 0);
+
+        {
+            ts::next_tx(scenario, admin);
+            let mut library = ts::take_shared<document_system::DocumentLibrary>(scenario);
+            let cap = ts::take_from_sender<document_system::ModeratorCap>(scenario);
+            assert!(document_system::get_report_count(&library, document_id) == 1, 0);
+
+            document_system::hide_document(&cap, &mut library, document_id, ts::ctx(scenario));
+            assert!(document_system::is_document_hidden(&library, document_id), 1);
+            assert!(document_system::get_report_count(&library, document_id) == 1, 2);
+
+            document_system::restore_document(&cap, &mut library, document_id, ts::ctx(scenario));
+            assert!(!document_system::is_document_hidden(&library, document_id), 3);
+            assert!(document_system::get_report_count(&library, document_id) == 0, 4);
+
+            ts::return_shared(library);
+            ts::return_to_sender(scenario, cap);
+        };
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 10, location = document_library::document_system)]
+    fun test_report_twice_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let reporter = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+        report_test_document(scenario, reporter, document_id, 2);
+        report_test_document(scenario, reporter, document_id, 3);
+
+        ts::end(scenario_val);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 11, location = document_library::document_system)]
+    fun test_report_with_unknown_reason_fails() {
+        let admin = @0xABCD;
+        let uploader = @0x1234;
+        let reporter = @0x5678;
+
+        let mut scenario_val = ts::begin(admin);
+        let scenario = &mut scenario_val;
+        setup_library(scenario, admin, uploader);
+        let document_id = upload_test_document(scenario, uploader, 10);
+        report_test_document(scenario, reporter, document_id, 4);
+
+        ts::end(scenario_val);
+    }
+}
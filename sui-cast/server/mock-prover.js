@@ -0,0 +1,159 @@
+/**
+ * Mock zkLogin Prover
+ * Speaks the prover API used by src/lib/prover.ts, so the zkLogin flow can
+ * run end-to-end without network access (point VITE_ZK_PROVER_URL at it).
+ *
+ *   POST /v1     <prover request>  ->  { proofPoints, issBase64Details, headerBase64 }
+ *   GET  /health                   ->  { ok: true, requests: <n> }
+ *
+ * The request is checked like the real prover does: the JWT must carry the
+ * nonce of the ephemeral key, max epoch and randomness. The proof points come
+ * from a fixture, while issBase64Details and headerBase64 are cut from the
+ * JWT itself, so the resulting signature is well-formed. It does NOT verify
+ * on-chain; use a real prover for that.
+ *
+ * Environment:
+ *   MOCK_PROVER_PORT       default 8788
+ *   MOCK_PROVER_FIXTURE    proof points JSON, default server/fixtures/zklogin-proof.json
+ *   MOCK_PROVER_DELAY_MS   simulated proving time, default 0
+ *   MOCK_PROVER_FAIL_FIRST answer 503 to the first n requests, to exercise retries
+ *   MOCK_PROVER_ALLOWED_ORIGIN  CORS origin of the app, default http://localhost:5173
+ *
+ * Run with `npm run mock-prover`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519';
+import { generateNonce, toPaddedBigEndianBytes } from '@mysten/sui/zklogin';
+
+// ==================== CONFIG ====================
+
+const PORT = Number(process.env.MOCK_PROVER_PORT ?? 8788);
+const FIXTURE_PATH = resolve(
+  process.env.MOCK_PROVER_FIXTURE ?? resolve(dirname(fileURLToPath(import.meta.url)), 'fixtures/zklogin-proof.json')
+);
+const DELAY_MS = Number(process.env.MOCK_PROVER_DELAY_MS ?? 0);
+const FAIL_FIRST = Number(process.env.MOCK_PROVER_FAIL_FIRST ?? 0);
+const ALLOWED_ORIGIN = process.env.MOCK_PROVER_ALLOWED_ORIGIN ?? 'http://localhost:5173';
+
+const REQUIRED_FIELDS = ['jwt', 'extendedEphemeralPublicKey', 'maxEpoch', 'jwtRandomness', 'salt', 'keyClaimName'];
+
+// ==================== ERRORS ====================
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ==================== PROOF ====================
+
+/**
+ * Base64url slice of the JWT payload covering the `"iss":"..."` claim
+ * Same encoding as the real prover, decoded again by the Sui SDK on verification.
+ */
+function issBase64Details(payloadSegment) {
+  const payload = Buffer.from(payloadSegment, 'base64url').toString('utf8');
+  const match = /"iss"\s*:\s*"[^"]*"\s*[,}]/.exec(payload);
+  if (!match) throw new HttpError(400, 'JWT has no iss claim');
+
+  const byteStart = Buffer.byteLength(payload.slice(0, match.index));
+  const byteEnd = byteStart + Buffer.byteLength(match[0]);
+  // Each base64 char holds 6 bits; take every char touching the claim's bytes
+  const charStart = Math.floor((byteStart * 8) / 6);
+  const charEnd = Math.floor((byteEnd * 8 - 1) / 6);
+  return { value: payloadSegment.slice(charStart, charEnd + 1), indexMod4: charStart % 4 };
+}
+
+/**
+ * Checks that the JWT nonce commits to the ephemeral key, max epoch and randomness
+ */
+function checkNonce(claims, request) {
+  let expected;
+  try {
+    // Extended key = 1 flag byte followed by the 32 byte Ed25519 key, as base64 or a decimal
+    const extended = request.extendedEphemeralPublicKey;
+    const bytes = /^\d+$/.test(extended)
+      ? toPaddedBigEndianBytes(BigInt(extended), 33)
+      : new Uint8Array(Buffer.from(extended, 'base64'));
+    const publicKey = new Ed25519PublicKey(bytes.slice(1));
+    expected = generateNonce(publicKey, Number(request.maxEpoch), request.jwtRandomness);
+  } catch {
+    throw new HttpError(400, 'Invalid extendedEphemeralPublicKey, maxEpoch or jwtRandomness');
+  }
+  if (claims.nonce !== expected) throw new HttpError(400, 'JWT nonce does not match the ephemeral key');
+}
+
+async function prove(request, proofPoints) {
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof request?.[field] !== 'string' || !request[field]) throw new HttpError(400, `Missing ${field}`);
+  }
+
+  const parts = request.jwt.split('.');
+  if (parts.length !== 3) throw new HttpError(400, 'Malformed JWT');
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Malformed JWT');
+  }
+  if (typeof claims[request.keyClaimName] !== 'string') {
+    throw new HttpError(400, `JWT has no ${request.keyClaimName} claim`);
+  }
+  checkNonce(claims, request);
+
+  if (DELAY_MS > 0) await new Promise((r) => setTimeout(r, DELAY_MS));
+  return { proofPoints, issBase64Details: issBase64Details(parts[1]), headerBase64: parts[0] };
+}
+
+// ==================== SERVER ====================
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const { proofPoints } = JSON.parse(await readFile(FIXTURE_PATH, 'utf8'));
+let requests = 0;
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204, {});
+    if (req.method === 'GET' && req.url === '/health') {
+      return send(res, 200, { ok: true, requests });
+    }
+    if (req.method === 'POST' && req.url === '/v1') {
+      requests += 1;
+      if (requests <= FAIL_FIRST) throw new HttpError(503, `Simulated failure ${requests}/${FAIL_FIRST}`);
+      return send(res, 200, await prove(await readJson(req), proofPoints));
+    }
+    send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error('Mock prover error:', err);
+    send(res, status, { error: status === 500 ? 'Internal error' : err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock zkLogin prover listening on http://localhost:${PORT}/v1 (fixture ${FIXTURE_PATH})`);
+});
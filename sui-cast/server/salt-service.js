@@ -0,0 +1,231 @@
+/**
+ * zkLogin Salt Service
+ * Reference implementation of the `http` salt provider (src/lib/salt.ts).
+ *
+ *   POST /get_salt  { "jwt": "<id token>" }  ->  { "salt": "<decimal>" }
+ *   GET  /health                             ->  { "ok": true, "users": <n> }
+ *
+ * The JWT signature is checked against the issuer's JWKS, then the salt is
+ * HMAC-SHA256(SALT_MASTER_SEED, iss|aud|sub) cut to 128 bits. Every salt is
+ * also written to SALT_STORE_PATH, so rotating the master seed never changes
+ * the address of an existing user.
+ *
+ * Environment:
+ *   SALT_MASTER_SEED        required, at least 32 bytes of hex
+ *   SALT_SERVICE_PORT       default 8787
+ *   SALT_STORE_PATH         default server/.data/salts.json
+ *   SALT_ALLOWED_AUDIENCES  required, comma separated OAuth client IDs
+ *   SALT_ALLOWED_ISSUERS    comma separated JWT issuers, default Google's
+ *   SALT_ALLOWED_ORIGIN     CORS origin of the app, default http://localhost:5173
+ *
+ * Run with `npm run salt-service`.
+ */
+
+import { createHmac, createPublicKey, verify } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// ==================== CONFIG ====================
+
+const PORT = Number(process.env.SALT_SERVICE_PORT ?? 8787);
+const MASTER_SEED = process.env.SALT_MASTER_SEED ?? '';
+const STORE_PATH = resolve(
+  process.env.SALT_STORE_PATH ?? resolve(dirname(fileURLToPath(import.meta.url)), '.data/salts.json')
+);
+const ALLOWED_AUDIENCES = (process.env.SALT_ALLOWED_AUDIENCES ?? '')
+  .split(',')
+  .map((aud) => aud.trim())
+  .filter(Boolean);
+// Only these issuers' discovery documents and JWKS are ever fetched
+const ALLOWED_ISSUERS = (process.env.SALT_ALLOWED_ISSUERS ?? 'https://accounts.google.com,accounts.google.com')
+  .split(',')
+  .map((iss) => iss.trim())
+  .filter(Boolean);
+const ALLOWED_ORIGIN = process.env.SALT_ALLOWED_ORIGIN ?? 'http://localhost:5173';
+
+// JWKS are re-fetched after this, so key rotation at the provider is picked up
+const JWKS_TTL_MS = 60 * 60 * 1000;
+// A few seconds of clock skew between us and the OAuth provider
+const CLOCK_SKEW_S = 60;
+
+if (!/^[0-9a-fA-F]{64,}$/.test(MASTER_SEED)) {
+  console.error('SALT_MASTER_SEED must be at least 32 bytes of hex (e.g. `openssl rand -hex 32`).');
+  process.exit(1);
+}
+if (ALLOWED_AUDIENCES.length === 0) {
+  console.error('SALT_ALLOWED_AUDIENCES must list the OAuth client IDs of the app.');
+  process.exit(1);
+}
+
+// ==================== ERRORS ====================
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ==================== STORE ====================
+
+/** @type {Record<string, string>} */
+let salts = {};
+
+async function loadStore() {
+  try {
+    salts = JSON.parse(await readFile(STORE_PATH, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    salts = {};
+  }
+}
+
+// Writes are serialized and go through a temp file, so a crash never truncates the store
+let pendingWrite = Promise.resolve();
+function saveStore() {
+  pendingWrite = pendingWrite.then(async () => {
+    await mkdir(dirname(STORE_PATH), { recursive: true });
+    const tmp = `${STORE_PATH}.tmp`;
+    await writeFile(tmp, JSON.stringify(salts, null, 2));
+    await rename(tmp, STORE_PATH);
+  });
+  return pendingWrite;
+}
+
+// ==================== JWT ====================
+
+const jwksCache = new Map();
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function issuerUrl(iss) {
+  // Google issues some tokens with a bare host name
+  return /^https?:\/\//.test(iss) ? iss : `https://${iss}`;
+}
+
+async function fetchJwks(iss) {
+  const cached = jwksCache.get(iss);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS) return cached.keys;
+
+  const config = await fetch(`${issuerUrl(iss)}/.well-known/openid-configuration`);
+  if (!config.ok) throw new HttpError(401, `Unknown issuer ${iss}`);
+  const { jwks_uri: jwksUri } = await config.json();
+
+  const jwks = await fetch(jwksUri);
+  if (!jwks.ok) throw new HttpError(502, `Could not fetch JWKS of ${iss}`);
+  const { keys } = await jwks.json();
+
+  jwksCache.set(iss, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+/**
+ * Verifies an RS256 id token and returns its claims
+ */
+async function verifyJwt(jwt) {
+  const parts = typeof jwt === 'string' ? jwt.split('.') : [];
+  if (parts.length !== 3) throw new HttpError(400, 'Malformed JWT');
+
+  let header;
+  let claims;
+  try {
+    header = decodeSegment(parts[0]);
+    claims = decodeSegment(parts[1]);
+  } catch {
+    throw new HttpError(400, 'Malformed JWT');
+  }
+
+  if (header.alg !== 'RS256') throw new HttpError(401, `Unsupported JWT algorithm ${header.alg}`);
+  if (!claims.iss || !claims.sub || !claims.aud) throw new HttpError(401, 'JWT is missing iss, sub or aud');
+  if (typeof claims.exp !== 'number') throw new HttpError(401, 'JWT is missing exp');
+
+  // Checked before any network request, so callers cannot make us fetch their URLs
+  if (!ALLOWED_ISSUERS.includes(claims.iss)) throw new HttpError(403, `Issuer ${claims.iss} is not allowed`);
+  const aud = Array.isArray(claims.aud) ? claims.aud[0] : claims.aud;
+  if (!ALLOWED_AUDIENCES.includes(aud)) throw new HttpError(403, `Audience ${aud} is not allowed`);
+
+  const keys = await fetchJwks(claims.iss);
+  const jwk = keys.find((key) => key.kid === header.kid);
+  if (!jwk) throw new HttpError(401, 'JWT signing key not found');
+
+  const valid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!valid) throw new HttpError(401, 'Invalid JWT signature');
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp + CLOCK_SKEW_S < now) throw new HttpError(401, 'JWT has expired');
+
+  return { iss: claims.iss, aud, sub: claims.sub };
+}
+
+// ==================== SALT ====================
+
+/**
+ * Returns the stored salt of an identity, deriving and storing it on first use
+ */
+async function getSalt({ iss, aud, sub }) {
+  const key = `${iss}|${aud}|${sub}`;
+  if (salts[key]) return salts[key];
+
+  // zkLogin salts must fit in 16 bytes
+  const digest = createHmac('sha256', Buffer.from(MASTER_SEED, 'hex')).update(key).digest();
+  const salt = BigInt(`0x${digest.subarray(0, 16).toString('hex')}`).toString();
+
+  salts[key] = salt;
+  await saveStore();
+  return salt;
+}
+
+// ==================== SERVER ====================
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204, {});
+    if (req.method === 'GET' && req.url === '/health') {
+      return send(res, 200, { ok: true, users: Object.keys(salts).length });
+    }
+    if (req.method === 'POST' && req.url === '/get_salt') {
+      const { jwt } = await readJson(req);
+      const identity = await verifyJwt(jwt);
+      return send(res, 200, { salt: await getSalt(identity) });
+    }
+    send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error('Salt service error:', err);
+    send(res, status, { error: status === 500 ? 'Internal error' : err.message });
+  }
+});
+
+await loadStore();
+server.listen(PORT, () => {
+  console.log(`zkLogin salt service listening on http://localhost:${PORT} (${Object.keys(salts).length} users)`);
+});
@@ -1,20 +1,22 @@
 // src/App.tsx
 import WalletSessionManager from './WalletSessionManager';
-import { useState, useEffect } from 'react';
+import ZkLoginSessionManager from './ZkLoginSessionManager';
+import { useState, useEffect, type ReactNode } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { useCurrentAccount } from '@mysten/dapp-kit';
 import LoginPage from './pages/LoginPage';
 import DocumentsPage from './pages/DocumentsPage';
 import ProfilePage from './pages/ProfilePage';
 import { ToastProvider } from './components/Toast';
+import { AuthProvider } from './components/AuthProvider';
+import { useAuth } from './lib/auth';
 
-function ProtectedRoute({ children }: { children: any }) {
-  const account = useCurrentAccount();
-  const zkLoginAddress = sessionStorage.getItem('zklogin_address');
+function ProtectedRoute({ children }: { children: ReactNode }) {
+  // Check if user is authenticated (Wallet or zkLogin)
+  const { isAuthenticated, loading } = useAuth();
   const location = useLocation();
 
-  // Check if user is authenticated (Wallet or zkLogin)
-  const isAuthenticated = !!account || !!zkLoginAddress;
+  // Wait for wallet auto-connect instead of bouncing a returning user to the login page
+  if (loading) return null;
 
   if (!isAuthenticated) {
     return <Navigate to="/" state={{ from: location }} replace />;
@@ -45,28 +47,31 @@ function App() {
 
   return (
     <ToastProvider theme={theme}>
-      <WalletSessionManager />
+      <AuthProvider>
+        <WalletSessionManager />
+        <ZkLoginSessionManager theme={theme} />
   
-      <Routes>
-        <Route path="/" element={<LoginPage theme={theme} setTheme={setTheme} />} />
-        <Route 
-          path="/app" 
-          element={
-            <ProtectedRoute>
-              <DocumentsPage theme={theme} setTheme={setTheme} />
-            </ProtectedRoute>
-          } 
-        />
-        <Route 
-          path="/profile/:address?" 
-          element={
-            <ProtectedRoute>
-              <ProfilePage theme={theme} setTheme={setTheme} />
-            </ProtectedRoute>
-          } 
-        />
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
+        <Routes>
+          <Route path="/" element={<LoginPage theme={theme} setTheme={setTheme} />} />
+          <Route 
+            path="/app" 
+            element={
+              <ProtectedRoute>
+                <DocumentsPage theme={theme} setTheme={setTheme} />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/profile/:address?" 
+            element={
+              <ProtectedRoute>
+                <ProfilePage theme={theme} setTheme={setTheme} />
+              </ProtectedRoute>
+            } 
+          />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </AuthProvider>
     </ToastProvider>
   );
   
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { AlertCircle } from "lucide-react";
+import { useToast } from "./components/Toast";
+import { useAuth } from "./lib/auth";
+import { useZkLoginExpiry, useZkLoginSession } from "./lib/hooks";
+import { beginZkLogin, followZkLoginLogout } from "./lib/zklogin";
+
+// Warn this long before the ephemeral key stops signing
+const WARN_BEFORE_MS = 2 * 60 * 60 * 1000;
+const CLOCK_TICK_MS = 30_000;
+
+type SessionStatus = "active" | "expiring" | "expired";
+
+export default function ZkLoginSessionManager({ theme }: { theme: "light" | "dark" }) {
+  const client = useSuiClient();
+  const { kind } = useAuth();
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const session = useZkLoginSession();
+  const { expiry } = useZkLoginExpiry();
+  const [now, setNow] = useState(() => Date.now());
+  const [renewing, setRenewing] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Logging out in one tab clears the persisted session for all of them
+  useEffect(() => followZkLoginLogout(() => navigate("/")), [navigate]);
+
+  let status: SessionStatus = "active";
+  if (session && expiry) {
+    if (expiry.currentEpoch > session.maxEpoch || now >= expiry.expiresAt) {
+      status = "expired";
+    } else if (expiry.expiresAt - now <= WARN_BEFORE_MS) {
+      status = "expiring";
+    }
+  }
+
+  // A connected wallet signs instead, so the zkLogin key does not matter then
+  const relevant = !!session && kind === "zklogin";
+
+  useEffect(() => {
+    if (!relevant) return;
+    if (status === "expiring") {
+      showToast("Your zkLogin session expires soon. Renew it to keep signing.", "warning");
+    } else if (status === "expired") {
+      showToast("Your zkLogin session has expired. Please log in again.", "error");
+    }
+  }, [relevant, status, showToast]);
+
+  if (!relevant || status === "active") return null;
+
+  const handleRenew = async () => {
+    if (!session) return;
+    try {
+      setRenewing(true);
+      await beginZkLogin(client, session.provider);
+    } catch (err) {
+      console.error("zkLogin renewal failed:", err);
+      showToast((err as Error).message, "error");
+      setRenewing(false);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const minutesLeft = expiry ? Math.max(0, Math.round((expiry.expiresAt - now) / 60_000)) : 0;
+
+  return (
+    <div
+      className={`fixed bottom-4 left-4 z-50 max-w-sm p-4 rounded-xl border shadow-lg flex gap-3 ${
+        isDark ? "bg-[#2d1f45] border-[#5C3E94] text-slate-200" : "bg-white border-[#C1BAA1] text-slate-800"
+      }`}
+    >
+      <AlertCircle className={`w-5 h-5 shrink-0 ${status === "expired" ? "text-red-500" : "text-yellow-500"}`} />
+      <div className="text-sm">
+        <p className="font-semibold">
+          {status === "expired" ? "zkLogin session expired" : `zkLogin session expires in ~${minutesLeft} min`}
+        </p>
+        <p className={`text-xs mt-1 ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+          Log in again to get a new ephemeral key and proof; your address stays the same.
+        </p>
+        <button
+          onClick={handleRenew}
+          disabled={renewing}
+          className={`mt-2 px-3 py-1 rounded-lg text-xs font-medium text-white disabled:opacity-50 ${
+            isDark ? "bg-[#F25912] hover:bg-[#F25912]/80" : "bg-[#A59D84] hover:bg-[#A59D84]/80"
+          }`}
+        >
+          {renewing ? "Redirecting..." : "Renew session"}
+        </button>
+      </div>
+    </div>
+  );
+}
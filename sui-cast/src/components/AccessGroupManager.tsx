@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Check, Copy, Loader2, Plus, Users, X } from 'lucide-react';
+import { useAccessGroups, useCreateAccessGroup, useUpdateGroupMember } from '../lib/hooks';
+import { ContractError } from '../lib/errors';
+import { InsufficientGasError } from '../lib/preflight';
+import { parseAccessList } from '../lib/seal';
+import { useToast } from './Toast';
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+/**
+ * Access groups of the logged-in user, e.g. one per course
+ * Encrypted documents shared with a group can be opened by all of its members.
+ */
+export function AccessGroupManager({ owner, isDark }: { owner: string; isDark: boolean }) {
+  const { showToast } = useToast();
+  const { groups, loading } = useAccessGroups(owner);
+  const { execute: createGroup, isPending: isCreating } = useCreateAccessGroup();
+  const { execute: updateMember, isPending: isUpdating } = useUpdateGroupMember();
+  const [groupName, setGroupName] = useState('');
+  const [memberInputs, setMemberInputs] = useState<Record<string, string>>({});
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const showError = (error: unknown) => {
+    console.error('Access group error:', error);
+    if (error instanceof ContractError || error instanceof InsufficientGasError) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!groupName.trim()) return;
+    try {
+      await createGroup(groupName.trim());
+      setGroupName('');
+      showToast('Group created!', 'success');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAddMember = async (groupId: string) => {
+    const { entries, invalid } = parseAccessList(memberInputs[groupId] ?? '');
+    if (invalid.length > 0 || entries.length !== 1) {
+      showToast('Enter one valid Sui address.', 'warning');
+      return;
+    }
+    try {
+      await updateMember(groupId, entries[0], 'add');
+      setMemberInputs((prev) => ({ ...prev, [groupId]: '' }));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemoveMember = async (groupId: string, member: string) => {
+    try {
+      await updateMember(groupId, member, 'remove');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCopyId = async (groupId: string) => {
+    try {
+      await navigator.clipboard.writeText(groupId);
+      setCopiedId(groupId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Copy error:', err);
+    }
+  };
+
+  const inputClass = `flex-1 p-2 rounded-lg border text-sm outline-none ${
+    isDark
+      ? 'bg-[#2d1f45] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500 focus:border-[#F25912]'
+      : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84] focus:border-[#A59D84]'
+  }`;
+  const buttonClass = `flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50 ${
+    isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+  }`;
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="space-y-4">
+      <p className={`text-sm ${mutedText}`}>
+        Share encrypted documents with a whole group by adding its ID when you upload.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          placeholder="New group name (e.g. Algorithms 2025)"
+          className={inputClass}
+        />
+        <button onClick={handleCreate} disabled={isCreating || !groupName.trim()} className={buttonClass}>
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Create
+        </button>
+      </div>
+
+      {loading ? (
+        <Loader2 className={`w-6 h-6 animate-spin ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+      ) : groups.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>You have not created any groups yet.</p>
+      ) : (
+        groups.map((group) => (
+          <div
+            key={group.id}
+            className={`p-4 rounded-xl border ${
+              isDark ? 'border-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <Users className={`w-4 h-4 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+              <span className={`font-semibold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>{group.name}</span>
+              <span className={`text-xs ${mutedText}`}>
+                {group.members.length} member{group.members.length === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => handleCopyId(group.id)}
+                title="Copy group ID"
+                className={`ml-auto flex items-center gap-1 text-xs font-mono ${mutedText}`}
+              >
+                {shortAddress(group.id)}
+                {copiedId === group.id ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
+              </button>
+            </div>
+
+            {group.members.length > 0 && (
+              <ul className="mt-3 flex flex-wrap gap-2">
+                {group.members.map((member) => (
+                  <li
+                    key={member}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-mono ${
+                      isDark ? 'bg-[#5C3E94]/40 text-slate-200' : 'bg-[#A59D84]/20 text-slate-700'
+                    }`}
+                  >
+                    {shortAddress(member)}
+                    <button
+                      onClick={() => handleRemoveMember(group.id, member)}
+                      disabled={isUpdating}
+                      title="Remove member"
+                      className="hover:text-red-500 disabled:opacity-50"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-3 flex gap-2">
+              <input
+                type="text"
+                value={memberInputs[group.id] ?? ''}
+                onChange={(e) => setMemberInputs((prev) => ({ ...prev, [group.id]: e.target.value }))}
+                placeholder="Member address (0x...)"
+                className={`${inputClass} font-mono`}
+              />
+              <button onClick={() => handleAddMember(group.id)} disabled={isUpdating} className={buttonClass}>
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useCallback, useMemo, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  useAutoConnectWallet,
+  useCurrentAccount,
+  useCurrentWallet,
+  useDisconnectWallet,
+} from '@mysten/dapp-kit';
+import { AuthContext, type AuthContextValue } from '../lib/auth';
+import { useTransactionSigner, useZkLoginSession } from '../lib/hooks';
+import { clearZkLoginSession } from '../lib/zklogin';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const navigate = useNavigate();
+  const account = useCurrentAccount();
+  const { currentWallet } = useCurrentWallet();
+  const autoConnect = useAutoConnectWallet();
+  const { mutate: disconnectWallet } = useDisconnectWallet();
+  const zkLoginSession = useZkLoginSession();
+  const signer = useTransactionSigner();
+
+  const logout = useCallback(() => {
+    if (account) {
+      disconnectWallet();
+    }
+    // Set logout flag (prevent autoConnect on page refresh)
+    localStorage.setItem('wallet_logged_out', 'true');
+    // Also logs out other tabs sharing the persisted session
+    clearZkLoginSession();
+    navigate('/');
+  }, [account, disconnectWallet, navigate]);
+
+  const value = useMemo<AuthContextValue>(() => {
+    const loading = autoConnect === 'idle';
+
+    if (account) {
+      return {
+        address: account.address,
+        kind: 'wallet',
+        displayInfo: { name: account.label ?? currentWallet?.name },
+        signer,
+        isAuthenticated: true,
+        loading,
+        logout,
+      };
+    }
+    if (zkLoginSession) {
+      return {
+        address: zkLoginSession.address,
+        kind: 'zklogin',
+        displayInfo: zkLoginSession.userInfo,
+        signer,
+        isAuthenticated: true,
+        loading,
+        logout,
+      };
+    }
+    return {
+      address: null,
+      kind: null,
+      displayInfo: null,
+      signer: null,
+      isAuthenticated: false,
+      loading,
+      logout,
+    };
+  }, [account, autoConnect, currentWallet, logout, signer, zkLoginSession]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
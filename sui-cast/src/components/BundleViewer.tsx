@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronRight, Download, Folder, Loader2 } from 'lucide-react';
+import { useBundleManifest, useReadDocumentFile, useTransactionSigner } from '../lib/hooks';
+import {
+  buildBundleTree,
+  bundleFileName,
+  bundleFileSource,
+  type BundleEntry,
+  type BundleSource,
+  type BundleTreeNode,
+} from '../lib/bundles';
+import { saveDocumentFile } from '../lib/files';
+import { DocumentDecryptionError, hasSessionKey } from '../lib/seal';
+import { formatBytes, WalrusError } from '../lib/walrus';
+import { DecryptPrompt, DocumentViewer } from './DocumentViewer';
+import { FileTypeIcon } from './FileTypeIcon';
+import { useToast } from './Toast';
+
+/**
+ * File tree of a bundle document, with a preview of the selected file
+ * Each file is read from its own Walrus blob, so only opened files are fetched.
+ */
+export function BundleViewer({ document, isDark }: { document: BundleSource; isDark: boolean }) {
+  const { showToast } = useToast();
+  const viewer = useTransactionSigner()?.address;
+  const readFile = useReadDocumentFile();
+  const [decryptRequested, setDecryptRequested] = useState(false);
+  const [selected, setSelected] = useState<BundleEntry | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const encrypted = !!document.encryptionId;
+  const decrypt = decryptRequested || hasSessionKey(viewer);
+  const { manifest, loading, error } = useBundleManifest(document, { decrypt });
+  const tree = useMemo(() => (manifest ? buildBundleTree(manifest) : []), [manifest]);
+
+  const toggleFolder = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const downloadEntry = async (entry: BundleEntry) => {
+    setDownloading(entry.path);
+    try {
+      const blob = await readFile(bundleFileSource(document, entry));
+      const name = bundleFileName(entry.path);
+      await saveDocumentFile(blob, { title: name, fileName: name, mimeType: entry.mimeType });
+    } catch (err) {
+      console.error('Download error:', err);
+      showToast(
+        err instanceof WalrusError || err instanceof DocumentDecryptionError
+          ? err.message
+          : 'File could not be downloaded. Please try again.',
+        'error'
+      );
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const mutedText = `text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+  const rowClass = (active: boolean) =>
+    `flex items-center gap-2 w-full px-2 py-1 rounded-lg text-left text-sm ${
+      active
+        ? isDark ? 'bg-[#5C3E94]/50 text-white' : 'bg-[#A59D84]/30 text-slate-900'
+        : isDark ? 'text-slate-200 hover:bg-[#5C3E94]/30' : 'text-slate-700 hover:bg-gray-200'
+    }`;
+
+  const renderNode = (node: BundleTreeNode, depth: number) => {
+    const indent = { paddingLeft: `${depth * 16 + 8}px` };
+
+    if (!node.entry) {
+      const open = !collapsed.has(node.path);
+      return (
+        <li key={node.path}>
+          <button onClick={() => toggleFolder(node.path)} className={rowClass(false)} style={indent}>
+            {open ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+            <Folder className={`w-4 h-4 shrink-0 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+            <span className="truncate">{node.name}</span>
+          </button>
+          {open && <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>}
+        </li>
+      );
+    }
+
+    const entry = node.entry;
+    return (
+      <li key={node.path} className="flex items-center gap-1">
+        <button onClick={() => setSelected(entry)} className={rowClass(selected?.path === entry.path)} style={indent}>
+          <FileTypeIcon mimeType={entry.mimeType} fileName={node.name} className="w-4 h-4 shrink-0 ml-5" />
+          <span className="truncate">{node.name}</span>
+          <span className={`ml-auto shrink-0 text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {formatBytes(entry.size)}
+          </span>
+        </button>
+        <button
+          onClick={() => downloadEntry(entry)}
+          disabled={downloading !== null}
+          title={`Download ${node.name}`}
+          className={`p-1.5 rounded-lg disabled:opacity-50 ${
+            isDark ? 'text-slate-300 hover:bg-[#5C3E94]/40' : 'text-slate-600 hover:bg-gray-200'
+          }`}
+        >
+          {downloading === entry.path ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        </button>
+      </li>
+    );
+  };
+
+  let content;
+  if (encrypted && !decrypt) {
+    content = (
+      <DecryptPrompt
+        document={document}
+        viewer={viewer}
+        label="Decrypt files"
+        isDark={isDark}
+        onDecrypt={() => setDecryptRequested(true)}
+      />
+    );
+  } else if (loading) {
+    content = (
+      <div className={`flex items-center gap-2 ${mutedText}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {encrypted ? 'Loading and decrypting the file list...' : 'Loading the file list from Walrus...'}
+      </div>
+    );
+  } else if (error || !manifest) {
+    content = (
+      <p className="flex items-center gap-2 text-sm text-red-500">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        File list could not be loaded: {error?.message ?? 'unknown error'}
+      </p>
+    );
+  } else {
+    content = (
+      <>
+        <p className={`mb-2 ${mutedText}`}>
+          {manifest.files.length} file{manifest.files.length === 1 ? '' : 's'} ·{' '}
+          {formatBytes(manifest.files.reduce((sum, file) => sum + file.size, 0))}
+        </p>
+        <ul>{tree.map((node) => renderNode(node, 0))}</ul>
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`max-h-[40vh] overflow-y-auto rounded-xl border p-4 ${
+          isDark ? 'border-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 bg-gray-50'
+        }`}
+      >
+        {content}
+      </div>
+
+      {selected && (
+        <div>
+          <p className={`mb-2 text-sm font-mono truncate ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+            {selected.path}
+          </p>
+          <DocumentViewer
+            key={selected.path}
+            document={{
+              ...bundleFileSource(document, selected),
+              fileName: bundleFileName(selected.path),
+              mimeType: selected.mimeType,
+              fileSize: selected.size,
+            }}
+            isDark={isDark}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
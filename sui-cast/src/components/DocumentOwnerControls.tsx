@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Edit2, Loader2, Trash2 } from 'lucide-react';
+import { useAuth } from '../lib/auth';
+import { DOCUMENT_CATEGORIES, type Document } from '../lib/contracts';
+import { ContractError } from '../lib/errors';
+import { useDeleteDocument, useStudentProfile, useUpdateDocument } from '../lib/hooks';
+import { InsufficientGasError } from '../lib/preflight';
+import { useToast } from './Toast';
+
+type EditableDocument = Pick<Document, 'id' | 'title' | 'description' | 'category'>;
+
+/**
+ * Edit and delete controls of a document, shown to its uploader
+ * Deleting takes the upload back from the uploader's profile; the Walrus
+ * blobs are left to expire.
+ */
+export function DocumentOwnerControls({
+  document,
+  isDark,
+  onDeleted,
+}: {
+  document: EditableDocument;
+  isDark: boolean;
+  onDeleted?: () => void;
+}) {
+  const { showToast } = useToast();
+  const { address } = useAuth();
+  const { profile } = useStudentProfile(address || undefined);
+  const { execute: updateDoc, isPending: isUpdating } = useUpdateDocument();
+  const { execute: deleteDoc, isPending: isDeleting } = useDeleteDocument();
+  const [form, setForm] = useState<Omit<EditableDocument, 'id'> | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const showError = (error: unknown) => {
+    console.error('Document update error:', error);
+    if (error instanceof ContractError || error instanceof InsufficientGasError) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.title.trim() || !form.category) return;
+    try {
+      await updateDoc(document.id, form.title.trim(), form.description.trim(), form.category);
+      setForm(null);
+      showToast('Document updated!', 'success');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profile) return;
+    try {
+      await deleteDoc(profile.id, document.id);
+      showToast('Document deleted.', 'success');
+      onDeleted?.();
+    } catch (error) {
+      setConfirmDelete(false);
+      showError(error);
+    }
+  };
+
+  const inputClass = `w-full p-2 rounded-lg border text-sm outline-none ${
+    isDark
+      ? 'bg-[#211832] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500 focus:border-[#F25912]'
+      : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84] focus:border-[#A59D84]'
+  }`;
+  const buttonClass = `flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white disabled:opacity-50 ${
+    isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+  }`;
+  const secondaryButtonClass = `py-2 px-3 rounded-lg text-xs font-medium ${
+    isDark ? 'text-slate-300 hover:bg-[#5C3E94]/30' : 'text-slate-600 hover:bg-gray-200'
+  }`;
+  const deleteButtonClass =
+    'flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white bg-red-600 hover:bg-red-500 disabled:opacity-50';
+
+  if (form) {
+    return (
+      <div className={`p-3 rounded-lg space-y-2 ${isDark ? 'bg-[#2d1f45]' : 'bg-gray-100'}`}>
+        <input
+          type="text"
+          value={form.title}
+          onChange={(e) => setForm({ ...form, title: e.target.value })}
+          placeholder="Document title"
+          className={inputClass}
+        />
+        <textarea
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="Document description"
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+        <select value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} className={inputClass}>
+          <option value="">Select category</option>
+          {/* Keeps categories that are no longer offered selectable */}
+          {!(DOCUMENT_CATEGORIES as readonly string[]).includes(document.category) && document.category && (
+            <option value={document.category}>{document.category}</option>
+          )}
+          {DOCUMENT_CATEGORIES.map((category) => (
+            <option key={category} value={category}>{category}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button onClick={handleSave} disabled={isUpdating || !form.title.trim() || !form.category} className={buttonClass}>
+            {isUpdating && <Loader2 className="w-3 h-3 animate-spin" />}
+            Save changes
+          </button>
+          <button onClick={() => setForm(null)} className={secondaryButtonClass}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={() =>
+          setForm({ title: document.title, description: document.description, category: document.category })
+        }
+        disabled={isDeleting}
+        className={buttonClass}
+      >
+        <Edit2 className="w-4 h-4" />
+        Edit details
+      </button>
+      {confirmDelete ? (
+        <>
+          <span className={`text-xs ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+            Delete this document? Its votes are lost.
+          </span>
+          <button onClick={handleDelete} disabled={isDeleting || !profile} className={deleteButtonClass}>
+            {isDeleting && <Loader2 className="w-3 h-3 animate-spin" />}
+            Delete
+          </button>
+          <button onClick={() => setConfirmDelete(false)} disabled={isDeleting} className={secondaryButtonClass}>
+            Cancel
+          </button>
+        </>
+      ) : (
+        <button onClick={() => setConfirmDelete(true)} className={deleteButtonClass}>
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
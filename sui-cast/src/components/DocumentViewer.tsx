@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2, Lock } from 'lucide-react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import 'highlight.js/styles/github-dark.css';
+import { useDocumentPreview, useTransactionSigner } from '../lib/hooks';
+import { PREVIEW_MAX_BYTES, type PreviewSource } from '../lib/preview';
+import { hasSessionKey, isDirectReader, type EncryptedDocumentSource } from '../lib/seal';
+import { formatBytes } from '../lib/walrus';
+
+function PdfPreview({ pdf, isDark }: { pdf: PDFDocumentProxy; isDark: boolean }) {
+  const [pageNumber, setPageNumber] = useState(1);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let task: RenderTask | null = null;
+
+    pdf
+      .getPage(pageNumber)
+      .then((page) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        // Rendered at the displayed width, sharp on high-DPI screens
+        const width = canvas.parentElement?.clientWidth || 600;
+        const scale = (width / page.getViewport({ scale: 1 }).width) * window.devicePixelRatio;
+        const viewport = page.getViewport({ scale });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        task = page.render({ canvas, viewport });
+        return task.promise;
+      })
+      .catch((err: Error) => {
+        if (err.name !== 'RenderingCancelledException') console.error('PDF render error:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const buttonClass = `p-1.5 rounded-lg disabled:opacity-30 ${
+    isDark ? 'text-slate-200 hover:bg-[#5C3E94]/40' : 'text-slate-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div>
+      <canvas ref={canvasRef} className="w-full rounded-lg shadow bg-white" />
+      <div className="flex items-center justify-center gap-3 mt-3">
+        <button onClick={() => setPageNumber((p) => p - 1)} disabled={pageNumber <= 1} className={buttonClass}>
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+          Page {pageNumber} / {pdf.numPages}
+        </span>
+        <button
+          onClick={() => setPageNumber((p) => p + 1)}
+          disabled={pageNumber >= pdf.numPages}
+          className={buttonClass}
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ImagePreview({ blob, alt }: { blob: Blob; alt: string }) {
+  // The object URL lives exactly as long as the <img> showing it
+  const attach = useCallback(
+    (img: HTMLImageElement | null) => {
+      if (!img) return;
+      const url = URL.createObjectURL(blob);
+      img.src = url;
+      return () => URL.revokeObjectURL(url);
+    },
+    [blob]
+  );
+
+  return <img ref={attach} alt={alt} className="max-w-full mx-auto rounded-lg" />;
+}
+
+/**
+ * Shown in place of an encrypted document's content until it is decrypted
+ */
+export function DecryptPrompt({
+  document,
+  viewer,
+  label,
+  isDark,
+  onDecrypt,
+}: {
+  document: EncryptedDocumentSource;
+  viewer: string | undefined;
+  label: string;
+  isDark: boolean;
+  onDecrypt: () => void;
+}) {
+  // Group membership is only checked when decrypting, so group-shared documents offer the button
+  const mayDecrypt = !!viewer && (isDirectReader(document, viewer) || document.allowedGroups.length > 0);
+
+  return (
+    <div className="flex flex-col items-start gap-3">
+      <p className={`flex items-center gap-2 text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+        <Lock className="w-4 h-4 shrink-0" />
+        {!viewer
+          ? 'This document is encrypted. Log in to open it if it was shared with you.'
+          : mayDecrypt
+          ? 'This document is encrypted. Decrypting asks your account for a signature once per session.'
+          : 'This document is encrypted and has not been shared with your account.'}
+      </p>
+      {mayDecrypt && (
+        <button
+          onClick={onDecrypt}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold text-white ${
+            isDark ? 'bg-[#5C3E94] hover:bg-[#6C4EA4]' : 'bg-[#A59D84] hover:bg-[#B5AD94]'
+          }`}
+        >
+          {label}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Embedded preview of a document's file, shown in the document modal
+ * Encrypted documents are decrypted on request, or right away once the
+ * account has signed a Seal session key.
+ */
+export function DocumentViewer({ document, isDark }: { document: PreviewSource; isDark: boolean }) {
+  const viewer = useTransactionSigner()?.address;
+  const [decryptRequested, setDecryptRequested] = useState(false);
+  const encrypted = !!document.encryptionId;
+  const decrypt = decryptRequested || hasSessionKey(viewer);
+  const { preview, available, loading, error } = useDocumentPreview(document, { decrypt });
+
+  const mutedText = `text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+  let content;
+  if (available && encrypted && !decrypt) {
+    content = (
+      <DecryptPrompt
+        document={document}
+        viewer={viewer}
+        label="Decrypt preview"
+        isDark={isDark}
+        onDecrypt={() => setDecryptRequested(true)}
+      />
+    );
+  } else if (!available || (!loading && !error && !preview)) {
+    content = (
+      <p className={mutedText}>
+        {document.fileSize !== null && document.fileSize > PREVIEW_MAX_BYTES
+          ? `Files over ${formatBytes(PREVIEW_MAX_BYTES)} can only be downloaded.`
+          : 'No preview available for this file type.'}
+      </p>
+    );
+  } else if (loading) {
+    content = (
+      <div className={`flex items-center gap-2 ${mutedText}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {encrypted ? 'Loading and decrypting preview...' : 'Loading preview from Walrus...'}
+      </div>
+    );
+  } else if (error) {
+    content = (
+      <p className="flex items-center gap-2 text-sm text-red-500">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        Preview could not be loaded: {error.message}
+      </p>
+    );
+  } else if (preview?.kind === 'pdf') {
+    content = <PdfPreview key={document.walrusBlobId} pdf={preview.pdf} isDark={isDark} />;
+  } else if (preview?.kind === 'image') {
+    content = <ImagePreview blob={preview.blob} alt={document.fileName ?? 'Document preview'} />;
+  } else if (preview?.kind === 'markdown') {
+    // Sanitised in lib/preview.ts
+    content = (
+      <div
+        className={`markdown-preview ${isDark ? 'text-slate-200' : 'text-slate-800'}`}
+        dangerouslySetInnerHTML={{ __html: preview.html }}
+      />
+    );
+  } else if (preview) {
+    // Escaped or highlight.js output only
+    content = (
+      <pre className="hljs rounded-lg p-4 text-xs overflow-x-auto">
+        <code dangerouslySetInnerHTML={{ __html: preview.html }} />
+      </pre>
+    );
+  }
+
+  return (
+    <div
+      className={`max-h-[50vh] overflow-y-auto rounded-xl border p-4 ${
+        isDark ? 'border-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 bg-gray-50'
+      }`}
+    >
+      {content}
+    </div>
+  );
+}
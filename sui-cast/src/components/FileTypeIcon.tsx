@@ -0,0 +1,27 @@
+import { File as FileIcon, FileArchive, FileCode, FileImage, FileText, FileType, Folder, type LucideIcon } from 'lucide-react';
+import { getFileKind, type FileKind } from '../lib/files';
+
+const ICONS: Record<FileKind, LucideIcon> = {
+  pdf: FileText,
+  image: FileImage,
+  text: FileType,
+  code: FileCode,
+  document: FileText,
+  archive: FileArchive,
+  bundle: Folder,
+  other: FileIcon,
+};
+
+export function FileTypeIcon({
+  mimeType,
+  fileName,
+  className,
+}: {
+  mimeType?: string | null;
+  fileName?: string | null;
+  className?: string;
+}) {
+  // Documents without file metadata were PDFs before uploads recorded it
+  const Icon = mimeType || fileName ? ICONS[getFileKind(mimeType ?? null, fileName ?? null)] : FileText;
+  return <Icon className={className} />;
+}
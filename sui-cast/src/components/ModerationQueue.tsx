@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { EyeOff, Flag, Loader2, RotateCcw } from 'lucide-react';
+import { REPORT_REASON_LABELS, REPORT_REASONS, type Document } from '../lib/contracts';
+import { ContractError } from '../lib/errors';
+import { useDocuments, useModerateDocument } from '../lib/hooks';
+import { InsufficientGasError } from '../lib/preflight';
+import { useToast } from './Toast';
+
+type ModerationAction = 'hide' | 'restore';
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+/**
+ * Reported and hidden documents, for holders of a ModeratorCap
+ * Restoring a document shows it again and dismisses its reports.
+ */
+export function ModerationQueue({ moderatorCapId, isDark }: { moderatorCapId: string; isDark: boolean }) {
+  const { showToast } = useToast();
+  const { documents, loading } = useDocuments({ loadAll: true, includeHidden: true });
+  const { execute: moderate } = useModerateDocument();
+  const [acting, setActing] = useState<{ id: string; action: ModerationAction } | null>(null);
+
+  const queue = documents
+    .filter((doc) => doc.hidden || doc.reports.length > 0)
+    .sort((a, b) => b.reports.length - a.reports.length);
+
+  const handleModerate = async (doc: Document, action: ModerationAction) => {
+    setActing({ id: doc.id, action });
+    try {
+      await moderate(moderatorCapId, doc.id, action);
+      showToast(action === 'hide' ? 'Document hidden.' : 'Document restored.', 'success');
+    } catch (error) {
+      console.error('Moderation error:', error);
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(`The document was not ${action === 'hide' ? 'hidden' : 'restored'}: ${(error as Error).message}`, 'error');
+      }
+    } finally {
+      setActing(null);
+    }
+  };
+
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const buttonClass = `flex items-center gap-1 px-3 py-2 rounded-lg text-xs font-semibold text-white disabled:opacity-50`;
+
+  if (loading) {
+    return <Loader2 className={`w-6 h-6 animate-spin ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />;
+  }
+  if (queue.length === 0) {
+    return <p className={`text-sm ${mutedText}`}>No reported documents. The queue is empty.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {queue.map((doc) => {
+        const counts = REPORT_REASONS.map((reason) => ({
+          reason,
+          count: doc.reports.filter((report) => report.reason === reason).length,
+        })).filter(({ count }) => count > 0);
+
+        return (
+          <div
+            key={doc.id}
+            className={`p-4 rounded-xl border ${
+              isDark ? 'border-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 bg-gray-50'
+            }`}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`font-semibold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>{doc.title}</span>
+              {doc.hidden && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/15 text-red-500">Hidden</span>
+              )}
+              <span className={`text-xs font-mono ${mutedText}`}>by {shortAddress(doc.uploader)}</span>
+              <div className="ml-auto flex gap-2">
+                {!doc.hidden && (
+                  <button
+                    onClick={() => handleModerate(doc, 'hide')}
+                    disabled={acting !== null}
+                    className={`${buttonClass} bg-red-600 hover:bg-red-500`}
+                  >
+                    {acting?.id === doc.id && acting.action === 'hide' ? <Loader2 className="w-4 h-4 animate-spin" /> : <EyeOff className="w-4 h-4" />}
+                    Hide
+                  </button>
+                )}
+                <button
+                  onClick={() => handleModerate(doc, 'restore')}
+                  disabled={acting !== null}
+                  title={doc.hidden ? 'Show the document again and dismiss its reports' : 'Dismiss the reports'}
+                  className={`${buttonClass} ${
+                    isDark ? 'bg-[#5C3E94] hover:bg-[#6C4EA4]' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                  }`}
+                >
+                  {acting?.id === doc.id && acting.action === 'restore' ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4" />
+                  )}
+                  {doc.hidden ? 'Restore' : 'Dismiss'}
+                </button>
+              </div>
+            </div>
+
+            {counts.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {counts.map(({ reason, count }) => (
+                  <span
+                    key={reason}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
+                      isDark ? 'bg-[#5C3E94]/40 text-slate-200' : 'bg-[#A59D84]/20 text-slate-700'
+                    }`}
+                  >
+                    <Flag className="w-3 h-3" />
+                    {REPORT_REASON_LABELS[reason]} × {count}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {doc.reports.some((report) => report.details) && (
+              <ul className={`mt-3 space-y-1 text-xs ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+                {doc.reports
+                  .filter((report) => report.details)
+                  .map((report) => (
+                    <li key={report.reporter}>
+                      <span className={`font-mono ${mutedText}`}>{shortAddress(report.reporter)}</span>{' '}
+                      <span className={mutedText}>({new Date(report.timestamp).toLocaleDateString()})</span>:{' '}
+                      {report.details}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
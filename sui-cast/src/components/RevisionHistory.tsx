@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { AlertCircle, CloudUpload, Download, FileDiff, FolderOpen, History, Loader2, X } from 'lucide-react';
+import { usePublishRevision, useReadDocumentFile } from '../lib/hooks';
+import { BundleError, isBundle, saveBundleZip } from '../lib/bundles';
+import { ContractError } from '../lib/errors';
+import { saveDocumentFile } from '../lib/files';
+import { InsufficientGasError } from '../lib/preflight';
+import {
+  canDiff,
+  diffRevisions,
+  DiffTooLargeError,
+  foldUnchanged,
+  listRevisions,
+  revisionSource,
+  type DiffItem,
+  type RevisionEntry,
+  type RevisionSource,
+} from '../lib/revisions';
+import { DocumentDecryptionError } from '../lib/seal';
+import { formatBytes, WalrusError, WALRUS_DEFAULT_EPOCHS, type WalrusUploadProgress } from '../lib/walrus';
+import { FileTypeIcon } from './FileTypeIcon';
+import { useToast } from './Toast';
+
+interface RevisionDiff {
+  older: RevisionEntry;
+  newer: RevisionEntry;
+  items: DiffItem[] | null;
+  error: string | null;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof WalrusError ||
+  err instanceof DocumentDecryptionError ||
+  err instanceof BundleError ||
+  err instanceof DiffTooLargeError ||
+  err instanceof ContractError ||
+  err instanceof InsufficientGasError
+    ? err.message
+    : fallback;
+
+/**
+ * Revisions of a document: every file it has had, with downloads and line
+ * diffs of text files. The uploader can publish a new revision here.
+ */
+export function RevisionHistory({
+  document,
+  canPublish,
+  isDark,
+}: {
+  document: RevisionSource;
+  canPublish: boolean;
+  isDark: boolean;
+}) {
+  const { showToast } = useToast();
+  const readFile = useReadDocumentFile();
+  const { execute: publishRevision, isPending: isPublishing } = usePublishRevision();
+  const [downloading, setDownloading] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [note, setNote] = useState('');
+  const [progress, setProgress] = useState<WalrusUploadProgress | null>(null);
+  const revisions = listRevisions(document);
+  const bundle = isBundle(document);
+
+  const downloadRevision = async (revision: RevisionEntry) => {
+    setDownloading(revision.number);
+    try {
+      const source = revisionSource(document, revision);
+      if (isBundle(revision)) {
+        await saveBundleZip({ ...source, title: document.title, fileName: revision.fileName }, readFile);
+      } else {
+        const blob = await readFile(source);
+        await saveDocumentFile(blob, { title: document.title, fileName: revision.fileName, mimeType: revision.mimeType });
+      }
+    } catch (err) {
+      console.error('Download error:', err);
+      showToast(errorMessage(err, 'File could not be downloaded. Please try again.'), 'error');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  // Compares a revision with the one it replaced
+  const showChanges = async (newer: RevisionEntry) => {
+    const older = revisions.find((revision) => revision.number === newer.number - 1);
+    if (!older) return;
+    setDiff({ older, newer, items: null, error: null });
+    try {
+      const lines = await diffRevisions(document, older, newer, readFile);
+      setDiff({ older, newer, items: foldUnchanged(lines), error: null });
+    } catch (err) {
+      console.error('Diff error:', err);
+      setDiff({ older, newer, items: null, error: errorMessage(err, 'The revisions could not be compared.') });
+    }
+  };
+
+  const handlePublish = async () => {
+    if (files.length === 0) return;
+    try {
+      await publishRevision(document, files, note.trim(), {
+        epochs: WALRUS_DEFAULT_EPOCHS,
+        onProgress: setProgress,
+      });
+      setFiles([]);
+      setNote('');
+      setDiff(null);
+      showToast('New revision published!', 'success');
+    } catch (err) {
+      console.error('Revision error:', err);
+      showToast(errorMessage(err, 'The revision could not be published. Please try again.'), 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const iconButtonClass = `p-1.5 rounded-lg disabled:opacity-50 ${
+    isDark ? 'text-slate-300 hover:bg-[#5C3E94]/40' : 'text-slate-600 hover:bg-gray-200'
+  }`;
+  const buttonClass = `flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white disabled:opacity-50 ${
+    isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+  }`;
+  const lineClass = (type: DiffItem['type']) =>
+    type === 'added'
+      ? 'bg-green-500/15 text-green-600'
+      : type === 'removed'
+      ? 'bg-red-500/15 text-red-500'
+      : isDark ? 'text-slate-300' : 'text-slate-700';
+
+  return (
+    <div className="space-y-3">
+      <ul
+        className={`rounded-xl border divide-y ${
+          isDark ? 'border-[#5C3E94]/40 divide-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 divide-[#C1BAA1]/40 bg-gray-50'
+        }`}
+      >
+        {revisions.map((revision) => (
+          <li key={revision.number} className="flex items-start gap-3 p-3">
+            <FileTypeIcon mimeType={revision.mimeType} fileName={revision.fileName} className="w-5 h-5 mt-0.5 shrink-0" />
+            <div className="flex-1 min-w-0 text-sm">
+              <p className={`flex items-center gap-2 font-semibold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
+                Revision {revision.number}
+                {revision.current && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-500/15 text-green-600">
+                    Current
+                  </span>
+                )}
+              </p>
+              <p className={`text-xs ${mutedText}`}>
+                {new Date(revision.timestamp).toLocaleString()}
+                {revision.fileName && ` · ${revision.fileName}`}
+                {revision.fileSize !== null && ` · ${formatBytes(revision.fileSize)}`}
+              </p>
+              {revision.note && (
+                <p className={`mt-1 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>{revision.note}</p>
+              )}
+            </div>
+            {revision.number > 1 && (
+              <button
+                onClick={() => showChanges(revision)}
+                disabled={!canDiff(revision, revisions.find((r) => r.number === revision.number - 1)!)}
+                title="Show changes from the previous revision"
+                className={iconButtonClass}
+              >
+                <FileDiff className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => downloadRevision(revision)}
+              disabled={downloading !== null}
+              title={`Download revision ${revision.number}`}
+              className={iconButtonClass}
+            >
+              {downloading === revision.number ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div
+          className={`rounded-xl border p-3 ${
+            isDark ? 'border-[#5C3E94]/40 bg-[#2d1f45]' : 'border-[#C1BAA1]/40 bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <History className={`w-4 h-4 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+            <span className={`text-sm font-semibold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
+              Revision {diff.older.number} → {diff.newer.number}
+            </span>
+            <button onClick={() => setDiff(null)} title="Close" className={`ml-auto ${iconButtonClass}`}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {diff.error ? (
+            <p className="flex items-center gap-2 text-sm text-red-500">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {diff.error}
+            </p>
+          ) : !diff.items ? (
+            <p className={`flex items-center gap-2 text-sm ${mutedText}`}>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {document.encryptionId ? 'Loading and decrypting both revisions...' : 'Loading both revisions from Walrus...'}
+            </p>
+          ) : diff.items.length === 0 ? (
+            <p className={`text-sm ${mutedText}`}>Both files are empty.</p>
+          ) : (
+            <div className="max-h-[40vh] overflow-auto">
+              <table className="w-full text-xs font-mono">
+                <tbody>
+                  {diff.items.map((item, index) =>
+                    item.type === 'skipped' ? (
+                      <tr key={index} className={mutedText}>
+                        <td colSpan={3} className="px-2 py-1 text-center">
+                          ⋯ {item.count} unchanged line{item.count === 1 ? '' : 's'}
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={index} className={lineClass(item.type)}>
+                        <td className={`px-2 text-right select-none ${mutedText}`}>{item.oldLine ?? ''}</td>
+                        <td className={`px-2 text-right select-none ${mutedText}`}>{item.newLine ?? ''}</td>
+                        <td className="px-2 whitespace-pre">
+                          {item.type === 'added' ? '+ ' : item.type === 'removed' ? '- ' : '  '}
+                          {item.text}
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* New revision - uploader only */}
+      {canPublish && (
+        <div className={`p-3 rounded-lg text-sm space-y-2 ${isDark ? 'bg-[#2d1f45] text-slate-300' : 'bg-gray-100 text-slate-600'}`}>
+          <p className="font-semibold">Publish a new revision</p>
+          <p className={`text-xs ${mutedText}`}>
+            The new {bundle ? 'folder' : 'file'} replaces the current one; votes and older revisions are kept.
+            {document.encryptionId && ' It is encrypted for the same readers and groups.'}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={`${buttonClass} cursor-pointer ${isPublishing ? 'opacity-50 pointer-events-none' : ''}`}>
+              {bundle ? <FolderOpen className="w-4 h-4" /> : <CloudUpload className="w-4 h-4" />}
+              {bundle ? 'Choose folder' : 'Choose file'}
+              <input
+                type="file"
+                ref={(input) => {
+                  if (input) input.webkitdirectory = bundle;
+                }}
+                onChange={(e) => {
+                  setFiles(Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+            <span className={`text-xs truncate ${mutedText}`}>
+              {files.length === 0
+                ? 'Nothing selected'
+                : bundle
+                ? `${files.length} file${files.length === 1 ? '' : 's'} selected`
+                : files[0].name}
+            </span>
+          </div>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={200}
+            placeholder="What changed? (optional)"
+            className={`w-full p-2 rounded-lg border text-xs outline-none ${
+              isDark
+                ? 'bg-[#211832] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500'
+                : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84]'
+            }`}
+          />
+          <button onClick={handlePublish} disabled={isPublishing || files.length === 0} className={buttonClass}>
+            {isPublishing && <Loader2 className="w-3 h-3 animate-spin" />}
+            {isPublishing && progress && progress.total > 0
+              ? `Uploading ${Math.round((progress.loaded / progress.total) * 100)}%`
+              : isPublishing
+              ? 'Publishing...'
+              : 'Publish revision'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
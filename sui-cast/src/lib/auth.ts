@@ -0,0 +1,44 @@
+/**
+ * Auth Context
+ * One active identity for the whole app, whether the user connected a wallet
+ * or logged in with zkLogin. Provided by components/AuthProvider.tsx.
+ */
+
+import { createContext, useContext } from 'react';
+import type { TransactionSigner } from './signer';
+
+// ==================== TYPES ====================
+
+export type AuthKind = 'wallet' | 'zklogin';
+
+export interface AuthDisplayInfo {
+  /** OAuth name, or the wallet's name for wallet users */
+  name?: string;
+  email?: string;
+  picture?: string;
+}
+
+export interface AuthContextValue {
+  /** Active address: the connected wallet first, then zkLogin */
+  address: string | null;
+  kind: AuthKind | null;
+  displayInfo: AuthDisplayInfo | null;
+  signer: TransactionSigner | null;
+  isAuthenticated: boolean;
+  /** True while the wallet is still auto-connecting after a reload */
+  loading: boolean;
+  /** Disconnects the wallet, clears the zkLogin session and returns to the login page */
+  logout: () => void;
+}
+
+// ==================== CONTEXT ====================
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,394 @@
+/**
+ * Document Bundles
+ * A project is often a folder of files rather than a single one. Each file of
+ * a bundle is stored as its own Walrus blob, and the document points to a
+ * manifest blob listing them by relative path. Files therefore stay
+ * content-addressed: they can be previewed and downloaded one by one, and
+ * unchanged files are not stored twice.
+ *
+ * Encrypted bundles encrypt every file and the manifest under the document's
+ * Seal identity, so readers decrypt them exactly like a single-file document.
+ */
+
+import type { Document } from './contracts';
+import { BUNDLE_MIME_TYPE, DEFAULT_MIME_TYPE, getFileInfo, saveDocumentFile } from './files';
+import type { EncryptedDocumentSource } from './seal';
+import { getWalrusClient, prepareUpload } from './walrus';
+import type { PreparedUpload, WalrusUploadOptions, WalrusUploadProgress, WalrusUploadResult } from './walrus';
+
+// ==================== CONFIG ====================
+
+const MANIFEST_VERSION = 1;
+
+// Every file is a separate upload, so very large folders are refused
+export const BUNDLE_MAX_FILES = 200;
+
+// Folder entries that are never part of a submission
+const IGNORED_SEGMENTS = new Set(['.git', 'node_modules', '.DS_Store', 'Thumbs.db', '__MACOSX']);
+
+// Already compressed, so they are stored as-is in zip downloads
+const STORED_MIME_TYPES = ['image/', 'application/pdf', 'application/zip'];
+
+// ==================== TYPES ====================
+
+export interface BundleEntry {
+  /** Relative path, '/'-separated, e.g. "push_swap/src/main.c" */
+  path: string;
+  blobId: string;
+  mimeType: string;
+  /** Size of the original file, before encryption */
+  size: number;
+}
+
+export interface BundleManifest {
+  version: number;
+  files: BundleEntry[];
+}
+
+/**
+ * A file picked for upload, with its path inside the bundle
+ */
+export interface BundleFile {
+  path: string;
+  file: File;
+}
+
+/**
+ * A file stored by uploadBundle; pass them back as `completed` to resume
+ */
+export interface UploadedBundleFile {
+  entry: BundleEntry;
+  endEpoch: number | null;
+}
+
+export interface BundleUploadProgress extends WalrusUploadProgress {
+  /** File being uploaded, null while the manifest is */
+  path: string | null;
+  fileIndex: number;
+  fileCount: number;
+}
+
+export interface BundleUploadOptions extends Omit<WalrusUploadOptions, 'onProgress'> {
+  /** Applied to every file and to the manifest before upload, e.g. Seal encryption */
+  transform?: (bytes: Uint8Array) => Promise<Uint8Array>;
+  /** Files stored by an earlier attempt; they are not uploaded again */
+  completed?: UploadedBundleFile[];
+  onProgress?: (progress: BundleUploadProgress) => void;
+  onFileUploaded?: (uploaded: UploadedBundleFile) => void;
+}
+
+export interface BundleUploadResult {
+  /** Blob of the manifest, recorded as the document's blob */
+  blobId: string;
+  manifest: BundleManifest;
+  /** Earliest end epoch of the manifest and its files, null if any is unknown */
+  endEpoch: number | null;
+  totalSize: number;
+}
+
+export interface BundleTreeNode {
+  name: string;
+  path: string;
+  /** Set for files */
+  entry: BundleEntry | null;
+  children: BundleTreeNode[];
+}
+
+export type BundleSource = EncryptedDocumentSource & Pick<Document, 'title' | 'fileName'>;
+
+export type BundleFileReader = (doc: EncryptedDocumentSource, signal?: AbortSignal) => Promise<Blob>;
+
+// ==================== ERRORS ====================
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// ==================== PATHS ====================
+
+/**
+ * Canonical relative path, or null for paths that could escape the bundle
+ * Manifests are written by other users and their paths end up in zip files.
+ */
+function normalizeBundlePath(path: string): string | null {
+  if (path.includes('\\') || path.startsWith('/')) return null;
+  const segments = path.split('/').filter((segment) => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+}
+
+export function bundleFileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Files picked with a file or folder input, sorted by path
+ * Folder picks keep their paths (webkitRelativePath); VCS and dependency folders are left out.
+ */
+export function collectBundleFiles(files: Iterable<File>): BundleFile[] {
+  const byPath = new Map<string, File>();
+  for (const file of files) {
+    const path = normalizeBundlePath(file.webkitRelativePath || file.name);
+    if (!path || path.split('/').some((segment) => IGNORED_SEGMENTS.has(segment))) continue;
+    byPath.set(path, file);
+  }
+
+  if (byPath.size === 0) throw new BundleError('The selection contains no files to upload.');
+  if (byPath.size > BUNDLE_MAX_FILES) {
+    throw new BundleError(`Bundles can contain at most ${BUNDLE_MAX_FILES} files (${byPath.size} selected).`);
+  }
+  return Array.from(byPath, ([path, file]) => ({ path, file })).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Name recorded as the bundle's filename: the picked folder, else the file count
+ */
+export function bundleName(files: Pick<BundleFile, 'path'>[]): string {
+  const roots = new Set(files.map(({ path }) => (path.includes('/') ? path.slice(0, path.indexOf('/')) : null)));
+  const [root] = roots;
+  return roots.size === 1 && root ? root : `${files.length} files`;
+}
+
+// ==================== MANIFEST ====================
+
+export function isBundle(doc: Pick<Document, 'mimeType'>): boolean {
+  return doc.mimeType === BUNDLE_MIME_TYPE;
+}
+
+export function encodeBundleManifest(manifest: BundleManifest): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify(manifest));
+}
+
+/**
+ * Parses and checks a manifest read from Walrus
+ */
+export function parseBundleManifest(text: string): BundleManifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError('The bundle manifest is not valid JSON.');
+  }
+
+  const manifest = raw as Partial<BundleManifest> | null;
+  if (manifest?.version !== MANIFEST_VERSION || !Array.isArray(manifest.files)) {
+    throw new BundleError('Unsupported bundle manifest.');
+  }
+
+  const files = manifest.files.map((file: Partial<BundleEntry> | null) => {
+    const path = typeof file?.path === 'string' ? normalizeBundlePath(file.path) : null;
+    if (!file || !path || typeof file.blobId !== 'string' || typeof file.size !== 'number') {
+      throw new BundleError('The bundle manifest contains an invalid file entry.');
+    }
+    return {
+      path,
+      blobId: file.blobId,
+      mimeType: typeof file.mimeType === 'string' ? file.mimeType : DEFAULT_MIME_TYPE,
+      size: file.size,
+    };
+  });
+  return { version: MANIFEST_VERSION, files };
+}
+
+/**
+ * Reads (and decrypts, depending on `readFile`) the manifest a bundle document points to
+ */
+export async function readBundleManifest(
+  doc: EncryptedDocumentSource,
+  signal: AbortSignal | undefined,
+  readFile: BundleFileReader
+): Promise<BundleManifest> {
+  const blob = await readFile(doc, signal);
+  return parseBundleManifest(await blob.text());
+}
+
+/**
+ * What reading one file of a bundle needs; it shares the document's encryption
+ */
+export function bundleFileSource<T extends EncryptedDocumentSource>(doc: T, entry: BundleEntry): T {
+  return { ...doc, walrusBlobId: entry.blobId };
+}
+
+/**
+ * Folders and files of a manifest as a tree, folders first
+ */
+export function buildBundleTree(manifest: BundleManifest): BundleTreeNode[] {
+  const root: BundleTreeNode = { name: '', path: '', entry: null, children: [] };
+  for (const entry of manifest.files) {
+    const segments = entry.path.split('/');
+    let parent = root;
+    segments.forEach((name, index) => {
+      const path = segments.slice(0, index + 1).join('/');
+      const isFile = index === segments.length - 1;
+      let node = parent.children.find((child) => child.name === name && !child.entry === !isFile);
+      if (!node) {
+        node = { name, path, entry: isFile ? entry : null, children: [] };
+        parent.children.push(node);
+      }
+      parent = node;
+    });
+  }
+
+  const sort = (nodes: BundleTreeNode[]) => {
+    nodes.sort((a, b) => Number(!!a.entry) - Number(!!b.entry) || a.name.localeCompare(b.name));
+    nodes.forEach((node) => sort(node.children));
+  };
+  sort(root.children);
+  return root.children;
+}
+
+// ==================== UPLOAD ====================
+
+function earliestEndEpoch(epochs: (number | null)[]): number | null {
+  return epochs.some((epoch) => epoch === null) ? null : Math.min(...(epochs as number[]));
+}
+
+/**
+ * Uploads every file of a bundle, then its manifest
+ * Files are sent one after another; progress covers the whole bundle.
+ */
+export async function uploadBundle(files: BundleFile[], options: BundleUploadOptions = {}): Promise<BundleUploadResult> {
+  const { transform, completed = [], onProgress, onFileUploaded, ...uploadOptions } = options;
+  const client = getWalrusClient();
+  const totalSize = files.reduce((sum, { file }) => sum + file.size, 0);
+
+  const toUpload = async (prepared: PreparedUpload): Promise<PreparedUpload> => {
+    if (!transform) return prepared;
+    const bytes = (await transform(prepared.bytes)) as Uint8Array<ArrayBuffer>;
+    return { bytes, type: DEFAULT_MIME_TYPE, size: bytes.length };
+  };
+
+  const uploaded: UploadedBundleFile[] = [];
+  let done = 0;
+  for (const [fileIndex, { path, file }] of files.entries()) {
+    const previous = completed.find(({ entry }) => entry.path === path && entry.size === file.size);
+    if (previous) {
+      uploaded.push(previous);
+      done += file.size;
+      continue;
+    }
+
+    // Phases report their own totals (the ciphertext is larger), so they are scaled to the file
+    const report = (progress: WalrusUploadProgress) =>
+      onProgress?.({
+        ...progress,
+        loaded: done + (progress.total > 0 ? (progress.loaded / progress.total) * file.size : 0),
+        total: totalSize,
+        path,
+        fileIndex,
+        fileCount: files.length,
+      });
+
+    const prepared = await toUpload(await prepareUpload(file, { signal: uploadOptions.signal, onProgress: report }));
+    const result = await client.upload(prepared, { ...uploadOptions, onProgress: report });
+    const stored: UploadedBundleFile = {
+      entry: { path, blobId: result.blobId, mimeType: getFileInfo(file).mimeType, size: file.size },
+      endEpoch: result.endEpoch,
+    };
+    uploaded.push(stored);
+    onFileUploaded?.(stored);
+    done += file.size;
+  }
+
+  const manifest: BundleManifest = { version: MANIFEST_VERSION, files: uploaded.map(({ entry }) => entry) };
+  const bytes = encodeBundleManifest(manifest);
+  const result = await client.upload(
+    await toUpload({ bytes, type: 'application/json', size: bytes.length }),
+    {
+      ...uploadOptions,
+      onProgress: (progress) =>
+        onProgress?.({ ...progress, loaded: totalSize, total: totalSize, path: null, fileIndex: files.length, fileCount: files.length }),
+    }
+  );
+
+  return {
+    blobId: result.blobId,
+    manifest,
+    endEpoch: earliestEndEpoch([result.endEpoch, ...uploaded.map(({ endEpoch }) => endEpoch)]),
+    totalSize,
+  };
+}
+
+/**
+ * Stores every file of a bundle and its manifest again for `options.epochs` epochs
+ * The result carries the manifest's blob ID and the earliest new end epoch.
+ * Only works while the blobs can still be read; expired bundles must be uploaded anew.
+ */
+export async function renewBundle(
+  blobId: string,
+  manifest: BundleManifest,
+  options: WalrusUploadOptions = {}
+): Promise<WalrusUploadResult> {
+  const client = getWalrusClient();
+  const blobIds = [...new Set(manifest.files.map((file) => file.blobId))];
+  const endEpochs: (number | null)[] = [];
+
+  // Progress counts blobs, since their stored sizes are not known up front
+  const renew = (id: string, index: number) =>
+    client.renewBlob(id, {
+      ...options,
+      onProgress: (progress) =>
+        options.onProgress?.({
+          ...progress,
+          loaded: index + (progress.total > 0 ? progress.loaded / progress.total : 0),
+          total: blobIds.length + 1,
+        }),
+    });
+
+  for (const [index, id] of blobIds.entries()) {
+    endEpochs.push((await renew(id, index)).endEpoch);
+  }
+  const renewed = await renew(blobId, blobIds.length);
+  return { ...renewed, endEpoch: earliestEndEpoch([renewed.endEpoch, ...endEpochs]) };
+}
+
+// ==================== DOWNLOAD ====================
+
+type FflateModule = typeof import('fflate');
+
+let fflateModule: Promise<FflateModule> | null = null;
+
+function loadFflate(): Promise<FflateModule> {
+  fflateModule ??= import('fflate');
+  return fflateModule;
+}
+
+/**
+ * Zip archive of every file of a bundle, read one file at a time
+ */
+export async function zipBundle(
+  doc: EncryptedDocumentSource,
+  manifest: BundleManifest,
+  readFile: BundleFileReader,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { zip } = await loadFflate();
+  const files: Record<string, [Uint8Array, { level: 0 | 6 }]> = {};
+  for (const entry of manifest.files) {
+    const blob = await readFile(bundleFileSource(doc, entry), signal);
+    const stored = STORED_MIME_TYPES.some((type) => entry.mimeType.startsWith(type));
+    files[entry.path] = [new Uint8Array(await blob.arrayBuffer()), { level: stored ? 0 : 6 }];
+  }
+
+  return new Promise((resolve, reject) => {
+    zip(files, {}, (err, data) =>
+      err ? reject(err) : resolve(new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' }))
+    );
+  });
+}
+
+/**
+ * Downloads a whole bundle as <bundle name>.zip
+ */
+export async function saveBundleZip(doc: BundleSource, readFile: BundleFileReader, signal?: AbortSignal): Promise<void> {
+  const manifest = await readBundleManifest(doc, signal, readFile);
+  const archive = await zipBundle(doc, manifest, readFile, signal);
+  await saveDocumentFile(archive, {
+    title: doc.title,
+    fileName: `${doc.fileName ?? doc.title}.zip`,
+    mimeType: 'application/zip',
+  });
+}
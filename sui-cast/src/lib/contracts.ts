@@ -1,10 +1,21 @@
 import { Transaction } from "@mysten/sui/transactions";
+import { fromHex } from "@mysten/sui/utils";
 
 // ==================== CONTRACT CONSTANTS ====================
 export const PACKAGE_ID = import.meta.env.VITE_PACKAGE_ID || "0xbfaff760182ed4b267cbf6db6ceaa28012b2adb48a2e2db0c51023efa2f1fda7";
 export const DOCUMENT_LIBRARY_ID = import.meta.env.VITE_DOCUMENT_LIBRARY_ID || "0xd4a75ba83ee878c99fcdbf493e4211316dc6d62492dd23ee7416135fabb1e793";
 export const ACHIEVEMENT_MINTER_ID = import.meta.env.VITE_ACHIEVEMENT_MINTER_ID || "0xf9799f420495793f17e33e3efefef4bae0d511f482e5b5eec8795322048f9496";
 export const CLOCK_ID = "0x6"; // Sui system clock object
+// Offered when uploading or editing; the contract accepts any string
+export const DOCUMENT_CATEGORIES = ["42 Project", "Programming", "Mathematics", "Physics", "Blockchain", "Other"] as const;
+// Report reasons, indexed by the REASON_* codes of document_system
+export const REPORT_REASONS = ["plagiarism", "cheating_material", "spam", "broken_file"] as const;
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  plagiarism: "Plagiarism",
+  cheating_material: "Cheating material",
+  spam: "Spam",
+  broken_file: "Broken file",
+};
 
 // ==================== DOCUMENT SYSTEM PTBs ====================
 
@@ -28,6 +39,9 @@ export function createStudentProfile(): Transaction {
  * @param title - Document title
  * @param description - Document description
  * @param walrusBlobId - Blob ID of the document uploaded to Walrus
+ * @param walrusEndEpoch - Walrus epoch the blob expires at, as reported by the publisher
+ * @param file - Original filename, MIME type and size of the uploaded file
+ * @param encryption - Seal identity and readers of an encrypted file, or null for a public one
  * @param category - Document category (e.g., "Mathematics", "Physics")
  */
 export function uploadDocument(
@@ -35,6 +49,9 @@ export function uploadDocument(
   title: string,
   description: string,
   walrusBlobId: string,
+  walrusEndEpoch: number,
+  file: DocumentFileInfo,
+  encryption: DocumentEncryption | null,
   category: string
 ): Transaction {
   const tx = new Transaction();
@@ -47,6 +64,13 @@ export function uploadDocument(
       tx.pure.string(title),
       tx.pure.string(description),
       tx.pure.string(walrusBlobId),
+      tx.pure.u64(walrusEndEpoch),
+      tx.pure.string(file.fileName),
+      tx.pure.string(file.mimeType),
+      tx.pure.u64(file.fileSize),
+      tx.pure.vector("u8", encryption ? fromHex(encryption.encryptionId) : []),
+      tx.pure.vector("address", encryption?.allowedReaders ?? []),
+      tx.pure.vector("id", encryption?.allowedGroups ?? []),
       tx.pure.string(category),
       tx.object(CLOCK_ID),              // Clock
     ],
@@ -55,6 +79,138 @@ export function uploadDocument(
   return tx;
 }
 
+/**
+ * Records a later Walrus end epoch for a document (uploader only)
+ * @param documentId - ID of the document whose blob was extended
+ * @param walrusEndEpoch - New end epoch of the blob; must be later than the recorded one
+ */
+export function extendDocumentStorage(documentId: string, walrusEndEpoch: number): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::extend_document_storage`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+      tx.pure.u64(walrusEndEpoch),
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Publishes a corrected file for a document (uploader only)
+ * The document keeps its ID and votes; the replaced file is listed as a past revision.
+ * @param documentId - ID of the document to revise
+ * @param walrusBlobId - Blob ID of the new file; must differ from the current one
+ * @param walrusEndEpoch - Walrus epoch the new blob expires at
+ * @param file - Filename, MIME type and size of the new file
+ * @param note - What the revision changed
+ */
+export function publishRevision(
+  documentId: string,
+  walrusBlobId: string,
+  walrusEndEpoch: number,
+  file: DocumentFileInfo,
+  note: string
+): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::publish_revision`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+      tx.pure.string(walrusBlobId),
+      tx.pure.u64(walrusEndEpoch),
+      tx.pure.string(file.fileName),
+      tx.pure.string(file.mimeType),
+      tx.pure.u64(file.fileSize),
+      tx.pure.string(note),
+      tx.object(CLOCK_ID),              // Clock
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Edits a document's title, description and category (uploader only)
+ * @param documentId - ID of the document to edit
+ * @param title - New title
+ * @param description - New description
+ * @param category - New category
+ */
+export function updateDocument(
+  documentId: string,
+  title: string,
+  description: string,
+  category: string
+): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::update_document`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+      tx.pure.string(title),
+      tx.pure.string(description),
+      tx.pure.string(category),
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Removes a document from the library (uploader only)
+ * The profile's upload count and the upload's monthly points are taken back.
+ * @param profileId - StudentProfile object ID of the uploader
+ * @param documentId - ID of the document to remove
+ */
+export function deleteDocument(profileId: string, documentId: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::delete_document`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.object(profileId),             // StudentProfile
+      tx.pure.id(documentId),           // Document ID
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Replaces who may decrypt an encrypted document (uploader only)
+ * @param documentId - ID of the encrypted document
+ * @param allowedReaders - Addresses that may decrypt it directly
+ * @param allowedGroups - AccessGroup IDs whose members may decrypt it
+ */
+export function setDocumentAccess(
+  documentId: string,
+  allowedReaders: string[],
+  allowedGroups: string[]
+): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::set_document_access`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+      tx.pure.vector("address", allowedReaders),
+      tx.pure.vector("id", allowedGroups),
+    ],
+  });
+  
+  return tx;
+}
+
 /**
  * Votes for a document
  * @param documentId - ID of the document to vote for
@@ -119,6 +275,145 @@ export function updateMonthlyLeaderboard(
   return tx;
 }
 
+// ==================== MODERATION PTBs ====================
+
+/**
+ * Reports a document to the moderators (once per address)
+ * @param documentId - ID of the reported document
+ * @param reason - What is wrong with it
+ * @param details - Optional explanation for the moderators
+ */
+export function reportDocument(documentId: string, reason: ReportReason, details: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::report_document`,
+    arguments: [
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+      tx.pure.u8(REPORT_REASONS.indexOf(reason)),
+      tx.pure.string(details),
+      tx.object(CLOCK_ID),              // Clock
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Hides a document from the library listing (moderators only)
+ * @param moderatorCapId - ModeratorCap object owned by the sender
+ * @param documentId - ID of the document to hide
+ */
+export function hideDocument(moderatorCapId: string, documentId: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::hide_document`,
+    arguments: [
+      tx.object(moderatorCapId),        // ModeratorCap
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Shows a document again and dismisses its reports (moderators only)
+ * @param moderatorCapId - ModeratorCap object owned by the sender
+ * @param documentId - ID of the document to restore
+ */
+export function restoreDocument(moderatorCapId: string, documentId: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::restore_document`,
+    arguments: [
+      tx.object(moderatorCapId),        // ModeratorCap
+      tx.object(DOCUMENT_LIBRARY_ID),  // DocumentLibrary shared object
+      tx.pure.id(documentId),           // Document ID
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Makes another address a moderator by sending it a new ModeratorCap
+ * @param moderatorCapId - ModeratorCap object owned by the sender
+ * @param recipient - Address of the new moderator
+ */
+export function addModerator(moderatorCapId: string, recipient: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::document_system::add_moderator`,
+    arguments: [
+      tx.object(moderatorCapId),        // ModeratorCap
+      tx.pure.address(recipient),
+    ],
+  });
+  
+  return tx;
+}
+
+// ==================== ACCESS GROUP PTBs ====================
+
+/**
+ * Creates a shared access group (e.g. a course) owned by the sender
+ * @param name - Group name shown to its owner
+ */
+export function createAccessGroup(name: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::access_group::create_access_group`,
+    arguments: [tx.pure.string(name)],
+  });
+  
+  return tx;
+}
+
+/**
+ * Adds a member to an access group (group owner only)
+ * @param groupId - AccessGroup object ID
+ * @param member - Address to add
+ */
+export function addGroupMember(groupId: string, member: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::access_group::add_member`,
+    arguments: [
+      tx.object(groupId),
+      tx.pure.address(member),
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Removes a member from an access group (group owner only)
+ * @param groupId - AccessGroup object ID
+ * @param member - Address to remove
+ */
+export function removeGroupMember(groupId: string, member: string): Transaction {
+  const tx = new Transaction();
+  
+  tx.moveCall({
+    target: `${PACKAGE_ID}::access_group::remove_member`,
+    arguments: [
+      tx.object(groupId),
+      tx.pure.address(member),
+    ],
+  });
+  
+  return tx;
+}
+
 // ==================== ACHIEVEMENT NFT PTBs ====================
 
 /**
@@ -200,16 +495,71 @@ export function mintPopularDocumentAchievement(
 }
 
 // ==================== HELPER TYPES ====================
+// u64 fields are exposed as number; decoders.ts rejects values above Number.MAX_SAFE_INTEGER
 
 export interface Document {
   id: string;
   title: string;
   description: string;
   walrusBlobId: string;
+  walrusEndEpoch: number | null; // null when unknown (documents of packages without expiry tracking)
+  // Original file; null for documents uploaded before file metadata was recorded
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  // Seal identity (hex) of an encrypted file; null for public documents
+  encryptionId: string | null;
+  allowedReaders: string[];
+  allowedGroups: string[];
   uploader: string;
   uploadTimestamp: number;
   votes: number;
+  voters: string[];
   category: string;
+  // What the current revision changed ('' for the original upload) and when its file was published
+  revisionNote: string;
+  revisionTimestamp: number;
+  revisions: DocumentRevision[]; // Files replaced by later revisions, oldest first
+  hidden: boolean; // Hidden by a moderator
+  reports: DocumentReport[]; // Open reports, cleared when a moderator restores the document
+}
+
+export interface DocumentRevision {
+  walrusBlobId: string;
+  walrusEndEpoch: number | null;
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number;
+  note: string;
+  timestamp: number;
+}
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export interface DocumentReport {
+  reporter: string;
+  reason: ReportReason;
+  details: string;
+  timestamp: number;
+}
+
+export interface DocumentFileInfo {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+}
+
+export interface DocumentEncryption {
+  encryptionId: string; // hex, starting with the uploader's address
+  allowedReaders: string[];
+  allowedGroups: string[];
+}
+
+export interface AccessGroup {
+  id: string;
+  name: string;
+  owner: string;
+  members: string[];
 }
 
 export interface StudentProfile {
@@ -236,3 +586,78 @@ export interface AchievementNFT {
   recipient: string;
   pointsEarned: number;
 }
+
+// ==================== EVENT TYPES ====================
+// Field names mirror the Move event structs in document_system.move
+
+export interface DocumentUploadedEvent {
+  document_id: string;
+  uploader: string;
+  title: string;
+  walrus_blob_id: string;
+  walrus_end_epoch: number | null;
+  category: string;
+  timestamp: number;
+}
+
+export interface DocumentStorageExtendedEvent {
+  document_id: string;
+  walrus_end_epoch: number;
+}
+
+export interface DocumentRevisedEvent {
+  document_id: string;
+  revision: number; // 1 is the original upload
+  walrus_blob_id: string;
+  walrus_end_epoch: number | null;
+  note: string;
+  timestamp: number;
+}
+
+export interface DocumentUpdatedEvent {
+  document_id: string;
+  title: string;
+  description: string;
+  category: string;
+}
+
+export interface DocumentDeletedEvent {
+  document_id: string;
+  uploader: string;
+}
+
+export interface DocumentReportedEvent {
+  document_id: string;
+  reporter: string;
+  reason: ReportReason;
+  timestamp: number;
+}
+
+export interface DocumentModeratedEvent {
+  document_id: string;
+  moderator: string;
+  hidden: boolean;
+}
+
+export interface DocumentAccessChangedEvent {
+  document_id: string;
+  allowed_readers: string[];
+  allowed_groups: string[];
+}
+
+export interface AccessGroupCreatedEvent {
+  group_id: string;
+  name: string;
+  owner: string;
+}
+
+export interface DocumentVotedEvent {
+  document_id: string;
+  voter: string;
+  new_vote_count: number;
+}
+
+export interface MonthlyLeaderboardUpdatedEvent {
+  month: number;
+  top_students: string[];
+}
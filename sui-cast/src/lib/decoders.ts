@@ -0,0 +1,462 @@
+/**
+ * Move Struct Decoders
+ * Typed, validated conversion of RPC Move content and event JSON into the
+ * interfaces declared in contracts.ts.
+ *
+ * u64 values are parsed as bigint first and only narrowed to `number` when
+ * they fit in Number.MAX_SAFE_INTEGER. Any mismatch between the on-chain
+ * layout and contracts.ts raises a MoveLayoutError naming the struct and field.
+ */
+
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { toHex } from '@mysten/sui/utils';
+import { REPORT_REASONS } from './contracts';
+import type {
+  AccessGroup,
+  AccessGroupCreatedEvent,
+  AchievementNFT,
+  Document,
+  DocumentAccessChangedEvent,
+  DocumentDeletedEvent,
+  DocumentModeratedEvent,
+  DocumentReport,
+  DocumentReportedEvent,
+  DocumentRevision,
+  DocumentRevisedEvent,
+  DocumentStorageExtendedEvent,
+  DocumentUpdatedEvent,
+  DocumentUploadedEvent,
+  DocumentVotedEvent,
+  LeaderboardEntry,
+  MonthlyLeaderboardUpdatedEvent,
+  ReportReason,
+  StudentProfile,
+} from './contracts';
+
+// ==================== ERRORS ====================
+
+const U64_MAX = (1n << 64n) - 1n;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 32 ? `${value.slice(0, 32)}...` : value}"`;
+  return typeof value;
+}
+
+/**
+ * Raised when a Move value does not have the shape contracts.ts expects
+ * Usually means the Move package changed without updating the frontend.
+ */
+export class MoveLayoutError extends Error {
+  readonly struct: string;
+  readonly field: string;
+
+  constructor(struct: string, field: string, expected: string, received: unknown) {
+    super(
+      `Unexpected on-chain layout for ${struct}.${field}: expected ${expected}, got ${describeValue(received)}. ` +
+        'Check that contracts.ts matches the deployed package.'
+    );
+    this.name = 'MoveLayoutError';
+    this.struct = struct;
+    this.field = field;
+  }
+}
+
+// ==================== PRIMITIVES ====================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Nested structs come wrapped as { type, fields } in object content but bare in event JSON
+function unwrapStruct(struct: string, value: unknown): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new MoveLayoutError(struct, '*', 'struct', value);
+  }
+  if ('fields' in value && isRecord(value.fields)) {
+    return value.fields;
+  }
+  return value;
+}
+
+/**
+ * Parses a Move u64 (JSON string or number) into a bigint
+ */
+export function parseU64(struct: string, field: string, value: unknown): bigint {
+  let parsed: bigint | null = null;
+
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'bigint' && value >= 0n) {
+    parsed = value;
+  }
+
+  if (parsed === null || parsed > U64_MAX) {
+    throw new MoveLayoutError(struct, field, 'u64', value);
+  }
+  return parsed;
+}
+
+/**
+ * Narrows a u64 to number, refusing values that would lose precision
+ */
+export function u64ToNumber(struct: string, field: string, value: bigint): number {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new MoveLayoutError(struct, field, 'u64 within Number.MAX_SAFE_INTEGER', value.toString());
+  }
+  return Number(value);
+}
+
+// REASON_* codes of document_system
+function reportReason(struct: string, code: number): ReportReason {
+  const reason = REPORT_REASONS[code];
+  if (!reason) throw new MoveLayoutError(struct, 'reason', `report reason 0-${REPORT_REASONS.length - 1}`, code);
+  return reason;
+}
+
+function fieldReader(struct: string, raw: unknown) {
+  const fields = unwrapStruct(struct, raw);
+
+  const get = (name: string): unknown => {
+    if (!(name in fields)) {
+      throw new MoveLayoutError(struct, name, 'field to be present', undefined);
+    }
+    return fields[name];
+  };
+
+  const string = (name: string): string => {
+    const value = get(name);
+    if (typeof value !== 'string') throw new MoveLayoutError(struct, name, 'String', value);
+    return value;
+  };
+
+  const address = (name: string): string => {
+    const value = get(name);
+    if (typeof value !== 'string' || !/^0x[0-9a-fA-F]+$/.test(value)) {
+      throw new MoveLayoutError(struct, name, 'address', value);
+    }
+    return value;
+  };
+
+  // ID renders as a bare address, UID as { id: address }
+  const id = (name: string): string => {
+    const value = get(name);
+    const inner = isRecord(value) ? value.id : value;
+    if (typeof inner !== 'string' || !/^0x[0-9a-fA-F]+$/.test(inner)) {
+      throw new MoveLayoutError(struct, name, 'ID', value);
+    }
+    return inner;
+  };
+
+  const u64 = (name: string): bigint => parseU64(struct, name, get(name));
+
+  const u64Number = (name: string): number => u64ToNumber(struct, name, u64(name));
+
+  const bool = (name: string): boolean => {
+    const value = get(name);
+    if (typeof value !== 'boolean') throw new MoveLayoutError(struct, name, 'bool', value);
+    return value;
+  };
+
+  const u8 = (name: string): number => {
+    const value = get(name);
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 255) {
+      throw new MoveLayoutError(struct, name, 'u8', value);
+    }
+    return value;
+  };
+
+  // sui::url::Url renders as a plain string, older nodes nest it as { url }
+  const url = (name: string): string => {
+    const value = get(name);
+    const inner = isRecord(value) ? unwrapStruct(struct, value).url : value;
+    if (typeof inner !== 'string') throw new MoveLayoutError(struct, name, 'Url', value);
+    return inner;
+  };
+
+  const vector = <T>(name: string, item: (value: unknown, index: number) => T): T[] => {
+    const value = get(name);
+    if (!Array.isArray(value)) throw new MoveLayoutError(struct, name, 'vector', value);
+    return value.map(item);
+  };
+
+  const addressVector = (name: string): string[] =>
+    vector(name, (value, index) => {
+      if (typeof value !== 'string') throw new MoveLayoutError(struct, `${name}[${index}]`, 'address', value);
+      return value;
+    });
+
+  const idVector = (name: string): string[] =>
+    vector(name, (value, index) => {
+      if (typeof value !== 'string') throw new MoveLayoutError(struct, `${name}[${index}]`, 'ID', value);
+      return value;
+    });
+
+  // vector<u8> renders as an array of numbers, returned as hex without 0x
+  const bytes = (name: string): string => {
+    const value = vector(name, (byte, index) => {
+      if (typeof byte !== 'number' || !Number.isInteger(byte) || byte < 0 || byte > 255) {
+        throw new MoveLayoutError(struct, `${name}[${index}]`, 'u8', byte);
+      }
+      return byte;
+    });
+    return toHex(Uint8Array.from(value));
+  };
+
+  return { get, string, address, id, u64, u64Number, bool, u8, url, vector, addressVector, idVector, bytes };
+}
+
+// ==================== OBJECTS ====================
+
+/**
+ * Returns the Move fields of an object response after checking its struct type
+ * @param structName - `module::Struct`, e.g. "document_system::StudentProfile"
+ */
+export function moveObjectFields(response: SuiObjectResponse, structName: string): Record<string, unknown> {
+  const content = response.data?.content;
+  if (content?.dataType !== 'moveObject') {
+    throw new MoveLayoutError(structName, '*', 'Move object with content', content?.dataType ?? response.error?.code);
+  }
+  // Only module::Struct is compared, so types of a republished package still match
+  if (!content.type.endsWith(`::${structName}`) && !content.type.includes(`::${structName}<`)) {
+    throw new MoveLayoutError(structName, '*', `object of type ${structName}`, content.type);
+  }
+  return content.fields as Record<string, unknown>;
+}
+
+export function decodeStudentProfile(objectId: string, raw: unknown): StudentProfile {
+  const read = fieldReader('StudentProfile', raw);
+
+  return {
+    id: objectId,
+    studentAddress: read.address('student_address'),
+    totalUploads: read.u64Number('total_uploads'),
+    totalVotesReceived: read.u64Number('total_votes_received'),
+    achievements: read.vector('achievements', (value, index) => {
+      if (typeof value !== 'string') {
+        throw new MoveLayoutError('StudentProfile', `achievements[${index}]`, 'ID', value);
+      }
+      return value;
+    }),
+  };
+}
+
+export function decodeDocument(raw: unknown): Document {
+  const read = fieldReader('Document', raw);
+
+  return {
+    id: read.id('id'),
+    title: read.string('title'),
+    description: read.string('description'),
+    walrusBlobId: read.string('walrus_blob_id'),
+    // 0 is stored when the end epoch is unknown
+    walrusEndEpoch: read.u64Number('walrus_end_epoch') || null,
+    fileName: read.string('file_name') || null,
+    mimeType: read.string('mime_type') || null,
+    fileSize: read.u64Number('file_size'),
+    // An empty identity marks a public document
+    encryptionId: read.bytes('encryption_id') || null,
+    allowedReaders: read.addressVector('allowed_readers'),
+    allowedGroups: read.idVector('allowed_groups'),
+    uploader: read.address('uploader'),
+    uploadTimestamp: read.u64Number('upload_timestamp'),
+    votes: read.u64Number('votes'),
+    voters: read.addressVector('voters'),
+    category: read.string('category'),
+    revisionNote: read.string('revision_note'),
+    revisionTimestamp: read.u64Number('revision_timestamp'),
+    revisions: read.vector('revisions', decodeDocumentRevision),
+    hidden: read.bool('hidden'),
+    reports: read.vector('reports', decodeDocumentReport),
+  };
+}
+
+export function decodeDocumentRevision(raw: unknown): DocumentRevision {
+  const read = fieldReader('DocumentRevision', raw);
+
+  return {
+    walrusBlobId: read.string('walrus_blob_id'),
+    walrusEndEpoch: read.u64Number('walrus_end_epoch') || null,
+    fileName: read.string('file_name') || null,
+    mimeType: read.string('mime_type') || null,
+    fileSize: read.u64Number('file_size'),
+    note: read.string('note'),
+    timestamp: read.u64Number('timestamp'),
+  };
+}
+
+export function decodeDocumentReport(raw: unknown): DocumentReport {
+  const read = fieldReader('DocumentReport', raw);
+
+  return {
+    reporter: read.address('reporter'),
+    reason: reportReason('DocumentReport', read.u8('reason')),
+    details: read.string('details'),
+    timestamp: read.u64Number('timestamp'),
+  };
+}
+
+/**
+ * Decodes a `documents` table entry, i.e. a `Field<ID, Document>`
+ */
+export function decodeDocumentTableEntry(raw: unknown): Document {
+  const read = fieldReader('Field<ID, Document>', raw);
+  return decodeDocument(read.get('value'));
+}
+
+export function decodeAccessGroup(raw: unknown): AccessGroup {
+  const read = fieldReader('AccessGroup', raw);
+
+  return {
+    id: read.id('id'),
+    name: read.string('name'),
+    owner: read.address('owner'),
+    members: read.addressVector('members'),
+  };
+}
+
+export function decodeLeaderboardEntry(raw: unknown): LeaderboardEntry {
+  const read = fieldReader('LeaderboardEntry', raw);
+
+  return {
+    student: read.address('student'),
+    points: read.u64Number('points'),
+  };
+}
+
+export function decodeAchievementNFT(raw: unknown): AchievementNFT {
+  const read = fieldReader('AchievementNFT', raw);
+
+  return {
+    id: read.id('id'),
+    name: read.string('name'),
+    description: read.string('description'),
+    imageUrl: read.url('image_url'),
+    achievementType: read.u8('achievement_type'),
+    month: read.u64Number('month'),
+    rank: read.u8('rank'),
+    recipient: read.address('recipient'),
+    pointsEarned: read.u64Number('points_earned'),
+  };
+}
+
+// ==================== EVENTS ====================
+
+export function decodeDocumentUploadedEvent(raw: unknown): DocumentUploadedEvent {
+  const read = fieldReader('DocumentUploaded', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    uploader: read.address('uploader'),
+    title: read.string('title'),
+    walrus_blob_id: read.string('walrus_blob_id'),
+    walrus_end_epoch: read.u64Number('walrus_end_epoch') || null,
+    category: read.string('category'),
+    timestamp: read.u64Number('timestamp'),
+  };
+}
+
+export function decodeDocumentStorageExtendedEvent(raw: unknown): DocumentStorageExtendedEvent {
+  const read = fieldReader('DocumentStorageExtended', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    walrus_end_epoch: read.u64Number('walrus_end_epoch'),
+  };
+}
+
+export function decodeDocumentRevisedEvent(raw: unknown): DocumentRevisedEvent {
+  const read = fieldReader('DocumentRevised', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    revision: read.u64Number('revision'),
+    walrus_blob_id: read.string('walrus_blob_id'),
+    walrus_end_epoch: read.u64Number('walrus_end_epoch') || null,
+    note: read.string('note'),
+    timestamp: read.u64Number('timestamp'),
+  };
+}
+
+export function decodeDocumentUpdatedEvent(raw: unknown): DocumentUpdatedEvent {
+  const read = fieldReader('DocumentUpdated', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    title: read.string('title'),
+    description: read.string('description'),
+    category: read.string('category'),
+  };
+}
+
+export function decodeDocumentDeletedEvent(raw: unknown): DocumentDeletedEvent {
+  const read = fieldReader('DocumentDeleted', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    uploader: read.address('uploader'),
+  };
+}
+
+export function decodeDocumentReportedEvent(raw: unknown): DocumentReportedEvent {
+  const read = fieldReader('DocumentReported', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    reporter: read.address('reporter'),
+    reason: reportReason('DocumentReported', read.u8('reason')),
+    timestamp: read.u64Number('timestamp'),
+  };
+}
+
+export function decodeDocumentModeratedEvent(raw: unknown): DocumentModeratedEvent {
+  const read = fieldReader('DocumentModerated', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    moderator: read.address('moderator'),
+    hidden: read.bool('hidden'),
+  };
+}
+
+export function decodeDocumentAccessChangedEvent(raw: unknown): DocumentAccessChangedEvent {
+  const read = fieldReader('DocumentAccessChanged', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    allowed_readers: read.addressVector('allowed_readers'),
+    allowed_groups: read.idVector('allowed_groups'),
+  };
+}
+
+export function decodeAccessGroupCreatedEvent(raw: unknown): AccessGroupCreatedEvent {
+  const read = fieldReader('AccessGroupCreated', raw);
+
+  return {
+    group_id: read.id('group_id'),
+    name: read.string('name'),
+    owner: read.address('owner'),
+  };
+}
+
+export function decodeDocumentVotedEvent(raw: unknown): DocumentVotedEvent {
+  const read = fieldReader('DocumentVoted', raw);
+
+  return {
+    document_id: read.id('document_id'),
+    voter: read.address('voter'),
+    new_vote_count: read.u64Number('new_vote_count'),
+  };
+}
+
+export function decodeMonthlyLeaderboardUpdatedEvent(raw: unknown): MonthlyLeaderboardUpdatedEvent {
+  const read = fieldReader('MonthlyLeaderboardUpdated', raw);
+
+  return {
+    month: read.u64Number('month'),
+    top_students: read.addressVector('top_students'),
+  };
+}
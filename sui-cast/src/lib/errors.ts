@@ -0,0 +1,286 @@
+/**
+ * Move Abort Translation
+ * Parses MoveAbort failures from dry-run / execution results and maps the
+ * abort codes of document_system, achievement_nft and access_group to typed errors.
+ *
+ * Codes mirror the `E_*` constants in move/sources/*.move.
+ */
+
+// ==================== ABORT CODES ====================
+
+export const ABORT_CODES = {
+  document_system: {
+    0: 'E_ALREADY_VOTED',
+    1: 'E_CANNOT_VOTE_OWN_DOCUMENT',
+    2: 'E_DOCUMENT_NOT_FOUND',
+    3: 'E_PROFILE_NOT_FOUND',
+    4: 'E_NOT_UPLOADER',
+    5: 'E_STORAGE_NOT_EXTENDED',
+    6: 'E_INVALID_ENCRYPTION_ID',
+    7: 'E_NO_ACCESS',
+    8: 'E_NOT_ENCRYPTED',
+    9: 'E_REVISION_UNCHANGED',
+    10: 'E_ALREADY_REPORTED',
+    11: 'E_INVALID_REPORT_REASON',
+  },
+  achievement_nft: {
+    0: 'E_NOT_ADMIN',
+    1: 'E_INVALID_RANK',
+  },
+  access_group: {
+    0: 'E_NOT_GROUP_OWNER',
+    1: 'E_ALREADY_MEMBER',
+    2: 'E_NOT_MEMBER',
+  },
+} as const;
+
+type AbortCodeTable = typeof ABORT_CODES;
+export type ContractModule = keyof AbortCodeTable;
+export type AbortCodeName = {
+  [M in ContractModule]: AbortCodeTable[M][keyof AbortCodeTable[M]];
+}[ContractModule];
+
+export interface MoveAbortInfo {
+  packageId?: string;
+  module: string;
+  functionName?: string;
+  code: number;
+}
+
+// ==================== ERRORS ====================
+
+/**
+ * A Move abort that could not be mapped to a known contract error
+ */
+export class MoveAbortError extends Error {
+  readonly abort: MoveAbortInfo;
+  readonly digest?: string;
+
+  constructor(abort: MoveAbortInfo, message?: string, digest?: string) {
+    const location = `${abort.module}${abort.functionName ? `::${abort.functionName}` : ''}`;
+    super(message ?? `Transaction aborted in ${location} with code ${abort.code}`);
+    this.name = 'MoveAbortError';
+    this.abort = abort;
+    this.digest = digest;
+  }
+}
+
+/**
+ * Base class for aborts raised by our own E_* constants
+ */
+export class ContractError extends MoveAbortError {
+  readonly codeName: AbortCodeName;
+
+  constructor(codeName: AbortCodeName, abort: MoveAbortInfo, message: string, digest?: string) {
+    super(abort, message, digest);
+    this.name = 'ContractError';
+    this.codeName = codeName;
+  }
+}
+
+export class AlreadyVotedError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_ALREADY_VOTED', abort, 'You have already voted for this document!', digest);
+    this.name = 'AlreadyVotedError';
+  }
+}
+
+export class CannotVoteOwnDocumentError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_CANNOT_VOTE_OWN_DOCUMENT', abort, 'You cannot vote for your own document!', digest);
+    this.name = 'CannotVoteOwnDocumentError';
+  }
+}
+
+export class DocumentNotFoundError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_DOCUMENT_NOT_FOUND', abort, 'This document no longer exists in the library.', digest);
+    this.name = 'DocumentNotFoundError';
+  }
+}
+
+export class ProfileNotFoundError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_PROFILE_NOT_FOUND', abort, 'This student profile does not belong to your address.', digest);
+    this.name = 'ProfileNotFoundError';
+  }
+}
+
+export class NotUploaderError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NOT_UPLOADER', abort, 'Only the uploader of this document can do this.', digest);
+    this.name = 'NotUploaderError';
+  }
+}
+
+export class StorageNotExtendedError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_STORAGE_NOT_EXTENDED', abort, 'The new storage end epoch must be later than the current one.', digest);
+    this.name = 'StorageNotExtendedError';
+  }
+}
+
+export class InvalidEncryptionIdError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_INVALID_ENCRYPTION_ID', abort, 'The encryption ID must start with your address.', digest);
+    this.name = 'InvalidEncryptionIdError';
+  }
+}
+
+export class NoDocumentAccessError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NO_ACCESS', abort, 'You do not have access to this encrypted document.', digest);
+    this.name = 'NoDocumentAccessError';
+  }
+}
+
+export class DocumentNotEncryptedError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NOT_ENCRYPTED', abort, 'This document is public; access can only be set on encrypted documents.', digest);
+    this.name = 'DocumentNotEncryptedError';
+  }
+}
+
+export class RevisionUnchangedError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_REVISION_UNCHANGED', abort, 'This file is already the current revision of the document.', digest);
+    this.name = 'RevisionUnchangedError';
+  }
+}
+
+export class AlreadyReportedError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_ALREADY_REPORTED', abort, 'You have already reported this document.', digest);
+    this.name = 'AlreadyReportedError';
+  }
+}
+
+export class InvalidReportReasonError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_INVALID_REPORT_REASON', abort, 'Unknown report reason.', digest);
+    this.name = 'InvalidReportReasonError';
+  }
+}
+
+export class NotGroupOwnerError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NOT_GROUP_OWNER', abort, 'Only the owner of this group can change its members.', digest);
+    this.name = 'NotGroupOwnerError';
+  }
+}
+
+export class AlreadyGroupMemberError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_ALREADY_MEMBER', abort, 'This address is already a member of the group.', digest);
+    this.name = 'AlreadyGroupMemberError';
+  }
+}
+
+export class NotGroupMemberError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NOT_MEMBER', abort, 'This address is not a member of the group.', digest);
+    this.name = 'NotGroupMemberError';
+  }
+}
+
+export class NotAdminError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_NOT_ADMIN', abort, 'Only the achievement admin can do this.', digest);
+    this.name = 'NotAdminError';
+  }
+}
+
+export class InvalidRankError extends ContractError {
+  constructor(abort: MoveAbortInfo, digest?: string) {
+    super('E_INVALID_RANK', abort, 'Rank must be 1, 2 or 3.', digest);
+    this.name = 'InvalidRankError';
+  }
+}
+
+const ERROR_CLASSES: Record<AbortCodeName, new (abort: MoveAbortInfo, digest?: string) => ContractError> = {
+  E_ALREADY_VOTED: AlreadyVotedError,
+  E_CANNOT_VOTE_OWN_DOCUMENT: CannotVoteOwnDocumentError,
+  E_DOCUMENT_NOT_FOUND: DocumentNotFoundError,
+  E_PROFILE_NOT_FOUND: ProfileNotFoundError,
+  E_NOT_UPLOADER: NotUploaderError,
+  E_STORAGE_NOT_EXTENDED: StorageNotExtendedError,
+  E_INVALID_ENCRYPTION_ID: InvalidEncryptionIdError,
+  E_NO_ACCESS: NoDocumentAccessError,
+  E_NOT_ENCRYPTED: DocumentNotEncryptedError,
+  E_REVISION_UNCHANGED: RevisionUnchangedError,
+  E_ALREADY_REPORTED: AlreadyReportedError,
+  E_INVALID_REPORT_REASON: InvalidReportReasonError,
+  E_NOT_GROUP_OWNER: NotGroupOwnerError,
+  E_ALREADY_MEMBER: AlreadyGroupMemberError,
+  E_NOT_MEMBER: NotGroupMemberError,
+  E_NOT_ADMIN: NotAdminError,
+  E_INVALID_RANK: InvalidRankError,
+};
+
+// ==================== PARSING ====================
+
+/**
+ * Extracts the abort location and code from a Sui execution error string
+ *
+ * Handles both the JSON-RPC debug format
+ *   MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("document_system") },
+ *     function: 2, instruction: 18, function_name: Some("vote_document") }, 0) in command 0
+ * and the newer human readable one
+ *   MoveAbort in 1st command, abort code: 0, in '0x..::document_system::vote_document' (instruction 18)
+ */
+export function parseMoveAbort(error: string): MoveAbortInfo | null {
+  const readable = error.match(/abort code:\s*(\d+),\s*in '(0x[0-9a-fA-F]+)::(\w+)::(\w+)'/);
+  if (readable) {
+    return {
+      code: Number(readable[1]),
+      packageId: readable[2],
+      module: readable[3],
+      functionName: readable[4],
+    };
+  }
+
+  const start = error.indexOf('MoveAbort(');
+  if (start === -1) return null;
+  const abort = error.slice(start);
+
+  const module = abort.match(/name:\s*Identifier\("(\w+)"\)/);
+  const code = abort.match(/\}\s*,\s*(\d+)\s*\)/);
+  if (!module || !code) return null;
+
+  const address = abort.match(/address:\s*(0x)?([0-9a-fA-F]+)/);
+  const functionName = abort.match(/function_name:\s*Some\("(\w+)"\)/);
+
+  return {
+    code: Number(code[1]),
+    packageId: address ? `0x${address[2]}` : undefined,
+    module: module[1],
+    functionName: functionName?.[1],
+  };
+}
+
+/**
+ * Builds the typed error for a parsed abort
+ */
+export function errorFromAbort(abort: MoveAbortInfo, digest?: string): MoveAbortError {
+  const codes = ABORT_CODES[abort.module as ContractModule] as Record<number, AbortCodeName> | undefined;
+  const codeName = codes?.[abort.code];
+  if (!codeName) {
+    return new MoveAbortError(abort, undefined, digest);
+  }
+  return new ERROR_CLASSES[codeName](abort, digest);
+}
+
+/**
+ * Converts anything a transaction can throw into a typed error when it is a
+ * Move abort; other errors (wallet rejection, network) are returned unchanged.
+ */
+export function translateTransactionError(error: unknown, digest?: string): Error {
+  if (error instanceof MoveAbortError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const abort = parseMoveAbort(message);
+  if (abort) {
+    return errorFromAbort(abort, digest);
+  }
+  return error instanceof Error ? error : new Error(message);
+}
@@ -0,0 +1,153 @@
+/**
+ * Document Files
+ * Filename, MIME type and size of uploaded files, recorded on-chain with the
+ * document, and the helpers that turn them into download names and icons.
+ *
+ * Documents uploaded before this metadata existed only have a title, so their
+ * type is sniffed from the first bytes of the blob when they are downloaded.
+ */
+
+import type { Document, DocumentFileInfo } from './contracts';
+
+// ==================== MIME TYPES ====================
+
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+// Documents made of several files store a manifest of them (see lib/bundles.ts)
+export const BUNDLE_MIME_TYPE = 'application/vnd.sui-cast.bundle+json';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  json: 'application/json',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  zip: 'application/zip',
+};
+
+// Source files are stored as text/plain unless the browser knows better
+const CODE_EXTENSIONS = new Set([
+  'c', 'h', 'cpp', 'hpp', 'cc', 'rs', 'go', 'py', 'js', 'jsx', 'ts', 'tsx', 'java', 'kt', 'swift',
+  'rb', 'php', 'sh', 'move', 'sol', 'css', 'scss', 'yaml', 'yml', 'toml', 'sql', 'makefile',
+]);
+
+// Magic numbers of the formats that are common in the library
+const SIGNATURES: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] }, // also docx/xlsx/pptx
+];
+
+/**
+ * Lowercase extension without the dot, or '' if the name has none
+ * Dotless names such as "Makefile" count as their own extension.
+ */
+export function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  if (dot > 0) return fileName.slice(dot + 1).toLowerCase();
+  const name = fileName.toLowerCase();
+  return CODE_EXTENSIONS.has(name) ? name : '';
+}
+
+export function guessMimeType(fileName: string): string {
+  const extension = fileExtension(fileName);
+  if (CODE_EXTENSIONS.has(extension)) return 'text/plain';
+  return MIME_BY_EXTENSION[extension] ?? DEFAULT_MIME_TYPE;
+}
+
+function extensionForMimeType(mimeType: string): string | null {
+  return Object.keys(MIME_BY_EXTENSION).find((extension) => MIME_BY_EXTENSION[extension] === mimeType) ?? null;
+}
+
+/**
+ * MIME type from the first bytes of the content, or null if unrecognised
+ */
+export async function sniffMimeType(blob: Blob): Promise<string | null> {
+  const head = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  const match = SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => head[i] === byte));
+  return match?.mimeType ?? null;
+}
+
+/**
+ * Metadata recorded with a new document
+ * Browsers leave File.type empty for types they do not know, e.g. Markdown.
+ */
+export function getFileInfo(file: File): DocumentFileInfo {
+  return {
+    fileName: file.name,
+    mimeType: file.type || guessMimeType(file.name),
+    fileSize: file.size,
+  };
+}
+
+// ==================== FILE KINDS ====================
+
+export type FileKind = 'pdf' | 'image' | 'text' | 'code' | 'document' | 'archive' | 'bundle' | 'other';
+
+/**
+ * Broad category of a file, used to pick its icon
+ */
+export function getFileKind(mimeType: string | null, fileName: string | null): FileKind {
+  if (mimeType === BUNDLE_MIME_TYPE) return 'bundle';
+  const extension = fileName ? fileExtension(fileName) : '';
+  if (CODE_EXTENSIONS.has(extension)) return 'code';
+  const type = mimeType ?? (fileName ? guessMimeType(fileName) : DEFAULT_MIME_TYPE);
+
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/json' || type.includes('javascript')) return 'code';
+  if (type.startsWith('text/')) return 'text';
+  if (type === 'application/zip' || type.includes('compressed')) return 'archive';
+  if (type.includes('msword') || type.includes('officedocument') || type.includes('ms-')) {
+    return 'document';
+  }
+  return 'other';
+}
+
+// ==================== DOWNLOADS ====================
+
+/**
+ * Name a downloaded document is saved under
+ * The original filename when known, else the title with an extension for its type.
+ */
+export function downloadFileName(doc: Pick<Document, 'title' | 'fileName' | 'mimeType'>): string {
+  if (doc.fileName) return doc.fileName;
+
+  const extension = doc.mimeType ? extensionForMimeType(doc.mimeType) : null;
+  if (!extension || fileExtension(doc.title) === extension) return doc.title;
+  return `${doc.title}.${extension}`;
+}
+
+/**
+ * Saves a document's blob with its original name and MIME type
+ * Aggregators serve every blob as application/octet-stream.
+ */
+export async function saveDocumentFile(
+  blob: Blob,
+  doc: Pick<Document, 'title' | 'fileName' | 'mimeType'>
+): Promise<void> {
+  const mimeType = doc.mimeType ?? (await sniffMimeType(blob)) ?? DEFAULT_MIME_TYPE;
+  const url = URL.createObjectURL(new Blob([blob], { type: mimeType }));
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = downloadFileName({ ...doc, mimeType });
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
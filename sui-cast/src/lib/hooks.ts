@@ -1,33 +1,246 @@
-import { useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
-import { useState, useCallback } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSignPersonalMessage,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import type { SuiClient } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
 import {
   createStudentProfile,
   uploadDocument,
+  extendDocumentStorage,
+  publishRevision,
+  updateDocument,
+  deleteDocument,
+  reportDocument,
+  hideDocument,
+  restoreDocument,
+  setDocumentAccess,
   voteDocument,
   addAchievementToProfile,
+  createAccessGroup,
+  addGroupMember,
+  removeGroupMember,
   mintMonthlyAchievement,
   mintUploaderAchievement,
   mintPopularDocumentAchievement,
   PACKAGE_ID,
   DOCUMENT_LIBRARY_ID,
 } from "./contracts";
-import type { Document, StudentProfile } from "./contracts";
+import type {
+  AccessGroup,
+  AchievementNFT,
+  Document,
+  DocumentEncryption,
+  DocumentFileInfo,
+  ReportReason,
+  StudentProfile,
+} from "./contracts";
+import {
+  decodeAccessGroupCreatedEvent,
+  decodeAchievementNFT,
+  decodeDocumentAccessChangedEvent,
+  decodeDocumentDeletedEvent,
+  decodeDocumentModeratedEvent,
+  decodeDocumentReportedEvent,
+  decodeDocumentRevisedEvent,
+  decodeDocumentStorageExtendedEvent,
+  decodeDocumentUpdatedEvent,
+  decodeDocumentUploadedEvent,
+  decodeDocumentVotedEvent,
+  decodeStudentProfile,
+  moveObjectFields,
+  parseU64,
+  u64ToNumber,
+} from "./decoders";
+import { translateTransactionError } from "./errors";
+import { InsufficientGasError, preflightTransaction } from "./preflight";
+import type { PreflightResult } from "./preflight";
+import { createWalletSigner, createZkLoginSigner } from "./signer";
+import type { TransactionSigner } from "./signer";
+import {
+  getZkLoginExpiry,
+  loadZkLoginSession,
+  subscribeZkLoginSession,
+  ZKLOGIN_STORAGE_KEYS,
+} from "./zklogin";
+import { DOCUMENT_PAGE_SIZE, fetchDocument, fetchDocumentPage, findDocumentByBlobId, getDocumentsTableId } from "./library";
+import type { DocumentPage } from "./library";
+import { queryKeys, STALE_TIME } from "./queryKeys";
+import { getWalrusClient, getWalrusEpochInfo, WalrusError } from "./walrus";
+import type { WalrusRenewOptions, WalrusUploadOptions } from "./walrus";
+import { canPreview, loadDocumentPreview } from "./preview";
+import type { PreviewSource } from "./preview";
+import { isBundle, readBundleManifest, renewBundle } from "./bundles";
+import type { BundleManifest } from "./bundles";
+import { uploadRevisionFiles } from "./revisions";
+import {
+  createEncryptionId,
+  decryptDocumentFile,
+  DocumentDecryptionError,
+  encryptDocumentFile,
+  fetchOwnedAccessGroups,
+} from "./seal";
+import type { EncryptedDocumentSource } from "./seal";
+import {
+  findCreatedObject,
+  findEvent,
+  parseExecutedTransaction,
+  TRANSACTION_RESPONSE_OPTIONS,
+} from "./transactions";
+import type { ExecutedTransaction } from "./transactions";
 
 // ==================== TRANSACTION HOOKS ====================
 
+// The JWT and ephemeral data change together on every login, so they identify the session
+function zkLoginSnapshot(): string {
+  const address = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.address);
+  if (!address) return "";
+  return [
+    address,
+    sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.jwt),
+    sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.ephemeral),
+  ].join("|");
+}
+
+/**
+ * zkLogin session of this tab; updates on login, renewal and logout
+ */
+export function useZkLoginSession() {
+  const snapshot = useSyncExternalStore(subscribeZkLoginSession, zkLoginSnapshot);
+  return useMemo(() => (snapshot ? loadZkLoginSession() : null), [snapshot]);
+}
+
+/**
+ * Signer of the active account: the connected wallet first, then zkLogin
+ * Returns null when neither is available.
+ */
+export function useTransactionSigner(): TransactionSigner | null {
+  const client = useSuiClient();
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const zkLoginSession = useZkLoginSession();
+
+  return useMemo(() => {
+    if (account) return createWalletSigner(account.address, signAndExecute, signPersonalMessage);
+    if (zkLoginSession) return createZkLoginSigner(client, zkLoginSession);
+    return null;
+  }, [account, client, signAndExecute, signPersonalMessage, zkLoginSession]);
+}
+
+/**
+ * Preflights, signs and executes a transaction, then waits until the fullnode has it
+ * Resolves with the created objects and emitted events. Predicted aborts are
+ * raised before anything is signed; aborts caught by the wallet's dry run or
+ * on-chain reject with the same typed errors of errors.ts.
+ * @param build - PTB builder from contracts.ts, called once for preflight and once for signing
+ */
+function useExecuteTransaction() {
+  const client = useSuiClient();
+  const signer = useTransactionSigner();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (build: () => Transaction): Promise<ExecutedTransaction> => {
+      if (!signer) {
+        throw new Error("Connect a wallet or log in with zkLogin first.");
+      }
+
+      const preflight = await preflightTransaction(client, build(), signer.address);
+      if (preflight.error) throw preflight.error;
+      if (preflight.insufficientBalance) throw new InsufficientGasError(preflight.gasRequired);
+
+      let digest: string;
+      try {
+        digest = await signer.signAndExecute(build());
+      } catch (err) {
+        throw translateTransactionError(err);
+      }
+
+      const response = await client.waitForTransaction({
+        digest,
+        options: TRANSACTION_RESPONSE_OPTIONS,
+      });
+      return parseExecutedTransaction(response);
+    },
+    // Balances and object versions moved, so cached estimates are stale
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.preflights() }),
+  });
+}
+
+/**
+ * Applies `update` to a document in every cached documents page
+ */
+function updateCachedDocument(
+  queryClient: QueryClient,
+  documentId: string,
+  update: (doc: Document) => Document
+) {
+  queryClient.setQueriesData<InfiniteData<DocumentPage>>(
+    { queryKey: queryKeys.documents() },
+    (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({
+          ...page,
+          documents: page.documents.map((doc) => (doc.id === documentId ? update(doc) : doc)),
+        })),
+      }
+  );
+}
+
+/**
+ * First cached copy of a document, or undefined if no loaded page has it
+ */
+function findCachedDocument(queryClient: QueryClient, documentId: string): Document | undefined {
+  const cached = queryClient.getQueriesData<InfiniteData<DocumentPage>>({ queryKey: queryKeys.documents() });
+  for (const [, data] of cached) {
+    for (const page of data?.pages ?? []) {
+      const match = page.documents.find((doc) => doc.id === documentId);
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Adds a document to the first cached documents page unless a page already has it
+ * Table pages are not ordered by upload time, so a new upload may sit on a page
+ * that is not loaded yet.
+ */
+function addCachedDocument(queryClient: QueryClient, document: Document) {
+  queryClient.setQueriesData<InfiniteData<DocumentPage>>({ queryKey: queryKeys.documents() }, (data) => {
+    if (!data || data.pages.length === 0) return data;
+    if (data.pages.some((page) => page.documents.some((doc) => doc.id === document.id))) return data;
+    const [first, ...rest] = data.pages;
+    return { ...data, pages: [{ ...first, documents: [document, ...first.documents] }, ...rest] };
+  });
+}
+
 /**
  * Öğrenci profili oluşturma hook'u
  */
 export function useCreateStudentProfile() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(async () => {
-    const tx = createStudentProfile();
-    const result = await signAndExecute({
-      transaction: tx,
-    });
-    return result;
-  }, [signAndExecute]);
+    const result = await executeTransaction(() => createStudentProfile());
+    const profileId = findCreatedObject(result, "document_system::StudentProfile");
+    await queryClient.invalidateQueries({ queryKey: queryKeys.profiles() });
+    return { ...result, profileId };
+  }, [executeTransaction, queryClient]);
 
   return { execute, isPending };
 }
@@ -36,7 +249,9 @@ export function useCreateStudentProfile() {
  * Döküman yükleme hook'u
  */
 export function useUploadDocument() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const client = useSuiClient();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(
     async (
@@ -44,15 +259,283 @@ export function useUploadDocument() {
       title: string,
       description: string,
       walrusBlobId: string,
+      walrusEndEpoch: number,
+      file: DocumentFileInfo,
+      encryption: DocumentEncryption | null,
       category: string
     ) => {
-      const tx = uploadDocument(profileId, title, description, walrusBlobId, category);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
-      return result;
+      const result = await executeTransaction(() =>
+        uploadDocument(profileId, title, description, walrusBlobId, walrusEndEpoch, file, encryption, category)
+      );
+      const uploaded = decodeDocumentUploadedEvent(findEvent(result, "document_system::DocumentUploaded"));
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.documents() }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.libraryStats() }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.profiles() }),
+      ]);
+      const tableId = await fetchDocumentsTableId(queryClient, client);
+      const document = await fetchDocument(client, tableId, uploaded.document_id);
+      if (document) addCachedDocument(queryClient, document);
+      return { ...result, documentId: uploaded.document_id, uploaded };
+    },
+    [executeTransaction, client, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Renews a document's Walrus blob and records the new end epoch on-chain
+ *
+ * The blob is stored again for `options.epochs` epochs; pass the original
+ * file as `options.source` once the blob has expired. Bundles pass their
+ * manifest as `options.bundle` so that every file is renewed with it. When
+ * Walrus already keeps the blob past the recorded end epoch, the transaction
+ * is skipped.
+ *
+ * Expired encrypted documents cannot be renewed: their original file is the
+ * plaintext, and encrypting it again never yields the same blob ID. They take
+ * a new revision instead.
+ */
+export function useExtendDocumentStorage() {
+  const { mutateAsync: executeTransaction } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+  const [isPending, setIsPending] = useState(false);
+
+  const execute = useCallback(
+    async (
+      document: Pick<Document, "id" | "walrusBlobId" | "walrusEndEpoch" | "encryptionId">,
+      options?: WalrusRenewOptions & { bundle?: BundleManifest }
+    ) => {
+      const { bundle, source, ...uploadOptions } = options ?? {};
+      if (source && document.encryptionId) {
+        throw new WalrusError("Expired encrypted documents cannot be renewed. Publish the file again as a new revision.");
+      }
+      setIsPending(true);
+      try {
+        const renewed = bundle
+          ? await renewBundle(document.walrusBlobId, bundle, uploadOptions)
+          : await getWalrusClient().renewBlob(document.walrusBlobId, { ...uploadOptions, source });
+        if (!renewed.endEpoch || renewed.endEpoch <= (document.walrusEndEpoch ?? 0)) {
+          return { renewed, result: null };
+        }
+
+        const result = await executeTransaction(() => extendDocumentStorage(document.id, renewed.endEpoch!));
+        const extended = decodeDocumentStorageExtendedEvent(
+          findEvent(result, "document_system::DocumentStorageExtended")
+        );
+        updateCachedDocument(queryClient, extended.document_id, (doc) => ({
+          ...doc,
+          walrusEndEpoch: extended.walrus_end_epoch,
+        }));
+        return { renewed, result };
+      } finally {
+        setIsPending(false);
+      }
     },
-    [signAndExecute]
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Replaces a document's file with a new revision (uploader only)
+ *
+ * The files are stored on Walrus first; bundle documents take several files.
+ * Encrypted documents keep their Seal identity, so the new file is encrypted
+ * for the same readers. Votes and the document ID stay as they are.
+ */
+export function usePublishRevision() {
+  const { mutateAsync: executeTransaction } = useExecuteTransaction();
+  const client = useSuiClient();
+  const queryClient = useQueryClient();
+  const [isPending, setIsPending] = useState(false);
+
+  const execute = useCallback(
+    async (
+      document: Pick<Document, "id" | "mimeType" | "encryptionId">,
+      files: File[],
+      note: string,
+      options?: WalrusUploadOptions
+    ) => {
+      setIsPending(true);
+      try {
+        const { encryptionId } = document;
+        const stored = await uploadRevisionFiles(files, {
+          ...options,
+          bundle: isBundle(document),
+          transform: encryptionId ? (bytes) => encryptDocumentFile(client, encryptionId, bytes) : undefined,
+        });
+
+        const result = await executeTransaction(() =>
+          publishRevision(document.id, stored.walrusBlobId, stored.walrusEndEpoch ?? 0, stored.file, note)
+        );
+        const revised = decodeDocumentRevisedEvent(findEvent(result, "document_system::DocumentRevised"));
+        updateCachedDocument(queryClient, revised.document_id, (doc) => ({
+          ...doc,
+          revisions: [
+            ...doc.revisions,
+            {
+              walrusBlobId: doc.walrusBlobId,
+              walrusEndEpoch: doc.walrusEndEpoch,
+              fileName: doc.fileName,
+              mimeType: doc.mimeType,
+              fileSize: doc.fileSize ?? 0,
+              note: doc.revisionNote,
+              timestamp: doc.revisionTimestamp,
+            },
+          ],
+          walrusBlobId: revised.walrus_blob_id,
+          walrusEndEpoch: revised.walrus_end_epoch,
+          fileName: stored.file.fileName,
+          mimeType: stored.file.mimeType,
+          fileSize: stored.file.fileSize,
+          revisionNote: revised.note,
+          revisionTimestamp: revised.timestamp,
+        }));
+        return { ...result, revised };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [executeTransaction, client, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Edits a document's title, description and category (uploader only)
+ */
+export function useUpdateDocument() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (documentId: string, title: string, description: string, category: string) => {
+      const result = await executeTransaction(() => updateDocument(documentId, title, description, category));
+      const updated = decodeDocumentUpdatedEvent(findEvent(result, "document_system::DocumentUpdated"));
+      updateCachedDocument(queryClient, updated.document_id, (doc) => ({
+        ...doc,
+        title: updated.title,
+        description: updated.description,
+        category: updated.category,
+      }));
+      return { ...result, updated };
+    },
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Removes a document from the library (uploader only)
+ * The document disappears from the cached pages right away; the library
+ * stats and the uploader's profile are refetched.
+ */
+export function useDeleteDocument() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (profileId: string, documentId: string) => {
+      const result = await executeTransaction(() => deleteDocument(profileId, documentId));
+      const deleted = decodeDocumentDeletedEvent(findEvent(result, "document_system::DocumentDeleted"));
+      queryClient.setQueriesData<InfiniteData<DocumentPage>>({ queryKey: queryKeys.documents() }, (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            documents: page.documents.filter((doc) => doc.id !== deleted.document_id),
+          })),
+        }
+      );
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.libraryStats() }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.profiles() }),
+      ]);
+      return { ...result, deleted };
+    },
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Reports a document to the moderators
+ * The report is added to the cached document, so the reporter cannot send it twice.
+ */
+export function useReportDocument() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (documentId: string, reason: ReportReason, details: string) => {
+      const result = await executeTransaction(() => reportDocument(documentId, reason, details));
+      const reported = decodeDocumentReportedEvent(findEvent(result, "document_system::DocumentReported"));
+      updateCachedDocument(queryClient, reported.document_id, (doc) => ({
+        ...doc,
+        reports: [
+          ...doc.reports,
+          { reporter: reported.reporter, reason: reported.reason, details, timestamp: reported.timestamp },
+        ],
+      }));
+      return { ...result, reported };
+    },
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Hides a document or restores it and dismisses its reports (moderators only)
+ */
+export function useModerateDocument() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (moderatorCapId: string, documentId: string, action: "hide" | "restore") => {
+      const result = await executeTransaction(() =>
+        action === "hide" ? hideDocument(moderatorCapId, documentId) : restoreDocument(moderatorCapId, documentId)
+      );
+      const moderated = decodeDocumentModeratedEvent(findEvent(result, "document_system::DocumentModerated"));
+      updateCachedDocument(queryClient, moderated.document_id, (doc) => ({
+        ...doc,
+        hidden: moderated.hidden,
+        reports: moderated.hidden ? doc.reports : [],
+      }));
+      return { ...result, moderated };
+    },
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Replaces the readers and groups of an encrypted document (uploader only)
+ */
+export function useSetDocumentAccess() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (documentId: string, allowedReaders: string[], allowedGroups: string[]) => {
+      const result = await executeTransaction(() => setDocumentAccess(documentId, allowedReaders, allowedGroups));
+      const changed = decodeDocumentAccessChangedEvent(findEvent(result, "document_system::DocumentAccessChanged"));
+      updateCachedDocument(queryClient, changed.document_id, (doc) => ({
+        ...doc,
+        allowedReaders: changed.allowed_readers,
+        allowedGroups: changed.allowed_groups,
+      }));
+      return { ...result, changed };
+    },
+    [executeTransaction, queryClient]
   );
 
   return { execute, isPending };
@@ -60,39 +543,134 @@ export function useUploadDocument() {
 
 /**
  * Döküman oylama hook'u
+ *
+ * The vote is applied to the cache optimistically (+1 and the current address
+ * added to voters) and rolled back if the transaction fails. A second vote on
+ * a document that is still pending, or that the current address has already
+ * voted for, resolves to null without opening the wallet.
  */
 export function useVoteDocument() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+  const signer = useTransactionSigner();
+  const pendingRef = useRef<Set<string>>(new Set());
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+
+  const setPending = useCallback((documentId: string, pending: boolean) => {
+    if (pending) {
+      pendingRef.current.add(documentId);
+    } else {
+      pendingRef.current.delete(documentId);
+    }
+    setPendingIds([...pendingRef.current]);
+  }, []);
 
   const execute = useCallback(
     async (documentId: string) => {
-      const tx = voteDocument(documentId);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
-      return result;
+      if (pendingRef.current.has(documentId)) return null;
+      const voter = signer?.address;
+      // The contract would abort with E_ALREADY_VOTED; nothing to send or roll back
+      if (voter && findCachedDocument(queryClient, documentId)?.voters.includes(voter)) return null;
+      setPending(documentId, true);
+
+      // Only a vote this call added is rolled back on failure
+      let optimistic = false;
+      await queryClient.cancelQueries({ queryKey: queryKeys.documents() });
+      if (voter) {
+        updateCachedDocument(queryClient, documentId, (doc) => {
+          if (doc.voters.includes(voter)) return doc;
+          optimistic = true;
+          return { ...doc, votes: doc.votes + 1, voters: [...doc.voters, voter] };
+        });
+      }
+
+      try {
+        const result = await executeTransaction(() => voteDocument(documentId));
+        const voted = decodeDocumentVotedEvent(findEvent(result, "document_system::DocumentVoted"));
+
+        // The event carries the authoritative count, so no refetch is needed
+        updateCachedDocument(queryClient, voted.document_id, (doc) => ({
+          ...doc,
+          votes: voted.new_vote_count,
+          voters: doc.voters.includes(voted.voter) ? doc.voters : [...doc.voters, voted.voter],
+        }));
+        return { ...result, newVoteCount: voted.new_vote_count, voted };
+      } catch (err) {
+        // Only this document is reverted, so other in-flight votes keep their optimistic state
+        if (optimistic && voter) {
+          updateCachedDocument(queryClient, documentId, (doc) =>
+            doc.voters.includes(voter)
+              ? { ...doc, votes: Math.max(0, doc.votes - 1), voters: doc.voters.filter((v) => v !== voter) }
+              : doc
+          );
+        }
+        throw err;
+      } finally {
+        setPending(documentId, false);
+      }
     },
-    [signAndExecute]
+    [signer?.address, executeTransaction, queryClient, setPending]
   );
 
-  return { execute, isPending };
+  const isVotePending = useCallback((documentId: string) => pendingIds.includes(documentId), [pendingIds]);
+
+  return { execute, isPending: pendingIds.length > 0, isVotePending };
 }
 
 /**
  * Achievement ekleme hook'u
  */
 export function useAddAchievementToProfile() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(
     async (profileId: string, achievementId: string) => {
-      const tx = addAchievementToProfile(profileId, achievementId);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
+      const result = await executeTransaction(() => addAchievementToProfile(profileId, achievementId));
+      await queryClient.invalidateQueries({ queryKey: queryKeys.profiles() });
       return result;
     },
-    [signAndExecute]
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+// ==================== ACCESS GROUP HOOKS ====================
+
+export function useCreateAccessGroup() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (name: string) => {
+      const result = await executeTransaction(() => createAccessGroup(name));
+      const created = decodeAccessGroupCreatedEvent(findEvent(result, "access_group::AccessGroupCreated"));
+      await queryClient.invalidateQueries({ queryKey: queryKeys.accessGroups() });
+      return { ...result, groupId: created.group_id };
+    },
+    [executeTransaction, queryClient]
+  );
+
+  return { execute, isPending };
+}
+
+/**
+ * Adds or removes a member of an access group (group owner only)
+ */
+export function useUpdateGroupMember() {
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
+
+  const execute = useCallback(
+    async (groupId: string, member: string, action: "add" | "remove") => {
+      const result = await executeTransaction(() =>
+        action === "add" ? addGroupMember(groupId, member) : removeGroupMember(groupId, member)
+      );
+      await queryClient.invalidateQueries({ queryKey: queryKeys.accessGroups() });
+      return result;
+    },
+    [executeTransaction, queryClient]
   );
 
   return { execute, isPending };
@@ -101,56 +679,119 @@ export function useAddAchievementToProfile() {
 // ==================== ADMIN HOOKS (NFT Minting) ====================
 
 export function useMintMonthlyAchievement() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(
     async (recipient: string, rank: number, month: number) => {
-      const tx = mintMonthlyAchievement(recipient, rank, month);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
-      return result;
+      const result = await executeTransaction(() => mintMonthlyAchievement(recipient, rank, month));
+      const nftId = findCreatedObject(result, "achievement_nft::AchievementNFT");
+      await queryClient.invalidateQueries({ queryKey: queryKeys.achievements() });
+      return { ...result, nftId };
     },
-    [signAndExecute]
+    [executeTransaction, queryClient]
   );
 
   return { execute, isPending };
 }
 
 export function useMintUploaderAchievement() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(
     async (recipient: string, uploadsCount: number, month: number) => {
-      const tx = mintUploaderAchievement(recipient, uploadsCount, month);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
-      return result;
+      const result = await executeTransaction(() => mintUploaderAchievement(recipient, uploadsCount, month));
+      const nftId = findCreatedObject(result, "achievement_nft::AchievementNFT");
+      await queryClient.invalidateQueries({ queryKey: queryKeys.achievements() });
+      return { ...result, nftId };
     },
-    [signAndExecute]
+    [executeTransaction, queryClient]
   );
 
   return { execute, isPending };
 }
 
 export function useMintPopularDocumentAchievement() {
-  const { mutateAsync: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const { mutateAsync: executeTransaction, isPending } = useExecuteTransaction();
+  const queryClient = useQueryClient();
 
   const execute = useCallback(
     async (recipient: string, votesReceived: number, month: number) => {
-      const tx = mintPopularDocumentAchievement(recipient, votesReceived, month);
-      const result = await signAndExecute({
-        transaction: tx,
-      });
-      return result;
+      const result = await executeTransaction(() =>
+        mintPopularDocumentAchievement(recipient, votesReceived, month)
+      );
+      const nftId = findCreatedObject(result, "achievement_nft::AchievementNFT");
+      await queryClient.invalidateQueries({ queryKey: queryKeys.achievements() });
+      return { ...result, nftId };
     },
-    [signAndExecute]
+    [executeTransaction, queryClient]
   );
 
   return { execute, isPending };
 }
 
+// ==================== PREFLIGHT HOOKS ====================
+
+/**
+ * Dev-inspects the transaction returned by `build` as the active account
+ * @param parts - values the transaction is built from; they key the cache entry
+ * @param build - PTB builder, or null while the inputs are incomplete
+ */
+function useTransactionPreflight(parts: readonly unknown[], build: (() => Transaction) | null) {
+  const client = useSuiClient();
+  const sender = useTransactionSigner()?.address;
+
+  const query = useQuery({
+    queryKey: queryKeys.preflight(sender, parts),
+    enabled: !!sender && !!build,
+    staleTime: STALE_TIME.preflight,
+    queryFn: (): Promise<PreflightResult> => preflightTransaction(client, build!(), sender!),
+  });
+
+  return { preflight: query.data ?? null, loading: query.isFetching, error: query.error };
+}
+
+/**
+ * Gas estimate and predicted abort for uploading a document
+ * Pass null until every field of the upload form is filled in.
+ */
+export function useUploadDocumentPreflight(
+  args: {
+    profileId: string;
+    title: string;
+    description: string;
+    walrusBlobId: string;
+    walrusEndEpoch: number;
+    file: DocumentFileInfo;
+    encryption: DocumentEncryption | null;
+    category: string;
+  } | null
+) {
+  return useTransactionPreflight(
+    ["uploadDocument", args],
+    args &&
+      (() =>
+        uploadDocument(
+          args.profileId,
+          args.title,
+          args.description,
+          args.walrusBlobId,
+          args.walrusEndEpoch,
+          args.file,
+          args.encryption,
+          args.category
+        ))
+  );
+}
+
+/**
+ * Gas estimate and predicted abort (already voted, own document) for a vote
+ */
+export function useVoteDocumentPreflight(documentId: string | null) {
+  return useTransactionPreflight(["voteDocument", documentId], documentId ? () => voteDocument(documentId) : null);
+}
+
 // ==================== QUERY HOOKS ====================
 
 /**
@@ -158,19 +799,14 @@ export function useMintPopularDocumentAchievement() {
  */
 export function useStudentProfile(address: string | undefined) {
   const client = useSuiClient();
-  const [profile, setProfile] = useState<StudentProfile | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetch = useCallback(async () => {
-    if (!address) return;
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
+
+  const query = useQuery({
+    queryKey: queryKeys.profile(address),
+    enabled: !!address,
+    staleTime: STALE_TIME.profile,
+    queryFn: async (): Promise<StudentProfile | null> => {
       const objects = await client.getOwnedObjects({
-        owner: address,
+        owner: address!,
         filter: {
           StructType: `${PACKAGE_ID}::document_system::StudentProfile`,
         },
@@ -179,26 +815,20 @@ export function useStudentProfile(address: string | undefined) {
         },
       });
 
-      if (objects.data.length > 0 && objects.data[0].data?.content?.dataType === "moveObject") {
-        const fields = objects.data[0].data.content.fields as any;
-        setProfile({
-          id: objects.data[0].data.objectId,
-          studentAddress: fields.student_address,
-          totalUploads: Number(fields.total_uploads),
-          totalVotesReceived: Number(fields.total_votes_received),
-          achievements: fields.achievements || [],
-        });
-      } else {
-        setProfile(null);
-      }
-    } catch (err) {
-      setError(err as Error);
-    } finally {
-      setLoading(false);
-    }
-  }, [client, address]);
+      const first = objects.data[0];
+      if (!first?.data) return null;
+
+      const fields = moveObjectFields(first, "document_system::StudentProfile");
+      return decodeStudentProfile(first.data.objectId, fields);
+    },
+  });
 
-  return { profile, loading, error, refetch: fetch };
+  return {
+    profile: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
 }
 
 /**
@@ -206,13 +836,11 @@ export function useStudentProfile(address: string | undefined) {
  */
 export function useLibraryStats() {
   const client = useSuiClient();
-  const [stats, setStats] = useState<{ totalDocuments: number } | null>(null);
-  const [loading, setLoading] = useState(false);
 
-  const fetch = useCallback(async () => {
-    setLoading(true);
-    
-    try {
+  const query = useQuery({
+    queryKey: queryKeys.libraryStats(),
+    staleTime: STALE_TIME.libraryStats,
+    queryFn: async () => {
       const object = await client.getObject({
         id: DOCUMENT_LIBRARY_ID,
         options: {
@@ -220,89 +848,125 @@ export function useLibraryStats() {
         },
       });
 
-      if (object.data?.content?.dataType === "moveObject") {
-        const fields = object.data.content.fields as any;
-        setStats({
-          totalDocuments: Number(fields.total_documents),
-        });
-      }
-    } catch (err) {
-      console.error("Error fetching library stats:", err);
-    } finally {
-      setLoading(false);
-    }
-  }, [client]);
+      const fields = moveObjectFields(object, "document_system::DocumentLibrary");
+      return {
+        totalDocuments: u64ToNumber(
+          "DocumentLibrary",
+          "total_documents",
+          parseU64("DocumentLibrary", "total_documents", fields.total_documents)
+        ),
+      };
+    },
+  });
 
-  return { stats, loading, refetch: fetch };
+  return { stats: query.data ?? null, loading: query.isLoading, refetch: query.refetch };
+}
+
+// Table entries come back in object ID order, so newest-first is restored client side.
+// Only loaded pages are sorted: before the last page is in, older documents can
+// still appear above newer ones from a later page.
+function sortByNewest(docs: Document[]): Document[] {
+  return [...docs].sort((a, b) => b.uploadTimestamp - a.uploadTimestamp);
+}
+
+// The table ID never changes, so it is resolved once per session
+function fetchDocumentsTableId(queryClient: QueryClient, client: SuiClient) {
+  return queryClient.fetchQuery({
+    queryKey: queryKeys.documentsTable(),
+    staleTime: STALE_TIME.documentsTable,
+    queryFn: () => getDocumentsTableId(client),
+  });
 }
 
 /**
- * Document olaylarını dinleyerek dökümanları getirir
+ * DocumentLibrary tablosundan dökümanları getirir
+ *
+ * Documents are read from the `documents` table page by page, so they stay
+ * listed after their upload events are pruned; `loadMore` appends the next
+ * page while `hasMore` is true. With `loadAll` the pages are fetched until the
+ * cursor is exhausted; if a page fails, `error` is set and fetching stops until
+ * `loadMore` is called. Both modes share one cache entry.
+ *
+ * The table has no upload-time order, so newest-first only holds across the
+ * loaded pages; use `loadAll` where the full order matters. New uploads are
+ * added to the first page.
+ * Documents hidden by a moderator are left out unless `includeHidden` is set.
  */
-export function useDocuments() {
+export function useDocuments(options?: { loadAll?: boolean; pageSize?: number; includeHidden?: boolean }) {
+  const { loadAll = false, pageSize = DOCUMENT_PAGE_SIZE, includeHidden = false } = options || {};
   const client = useSuiClient();
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [loading, setLoading] = useState(false);
-
-  const fetch = useCallback(async () => {
-    setLoading(true);
-    
-    try {
-      // DocumentUploaded event'lerini çek
-      const uploadEvents = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::document_system::DocumentUploaded`,
-        },
-        limit: 50,
-        order: "descending",
-      });
+  const queryClient = useQueryClient();
 
-      // DocumentVoted event'lerini çek - son vote sayılarını almak için
-      const voteEvents = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::document_system::DocumentVoted`,
-        },
-        limit: 100,
-        order: "descending",
-      });
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.documentPages(pageSize),
+    staleTime: STALE_TIME.documents,
+    queryFn: async ({ pageParam }: { pageParam: string | null }) => {
+      const tableId = await fetchDocumentsTableId(queryClient, client);
+      return fetchDocumentPage(client, tableId, pageParam, pageSize);
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasNextPage ? lastPage.nextCursor : undefined),
+  });
 
-      // Her document için en son vote count'u bul
-      const latestVotes: Record<string, number> = {};
-      for (const event of voteEvents.data) {
-        const parsedJson = event.parsedJson as any;
-        const docId = parsedJson.document_id;
-        // Sadece ilk (en son) event'i al
-        if (!latestVotes[docId]) {
-          latestVotes[docId] = Number(parsedJson.new_vote_count || 0);
-        }
-      }
+  const { hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage } = query;
 
-      // Document'ları oluştur
-      const docs: Document[] = uploadEvents.data.map((event) => {
-        const parsedJson = event.parsedJson as any;
-        const docId = parsedJson.document_id;
-        
-        return {
-          id: docId,
-          title: parsedJson.title || "",
-          description: parsedJson.description || "",
-          walrusBlobId: parsedJson.walrus_blob_id || "",
-          uploader: parsedJson.uploader,
-          uploadTimestamp: Number(parsedJson.timestamp || 0),
-          votes: latestVotes[docId] || 0, // Vote event'ten al
-          category: parsedJson.category || "",
-        };
-      });
+  // Drain the remaining pages for callers that need the whole library; a failed
+  // page stops the drain until the caller retries with loadMore
+  useEffect(() => {
+    if (loadAll && hasNextPage && !isFetchingNextPage && !isFetchNextPageError) {
+      fetchNextPage();
+    }
+  }, [loadAll, hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage]);
 
-      setDocuments(docs);
-    } catch (err) {
-      console.error("Error fetching documents:", err);
-    } finally {
-      setLoading(false);
+  const documents = useMemo(() => {
+    const byId = new Map<string, Document>();
+    for (const page of query.data?.pages ?? []) {
+      for (const doc of page.documents) {
+        if (includeHidden || !doc.hidden) byId.set(doc.id, doc);
+      }
     }
-  }, [client]);
+    return sortByNewest([...byId.values()]);
+  }, [query.data, includeHidden]);
 
-  return { documents, loading, refetch: fetch };
+  const loadMore = useCallback(async () => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    await fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    documents,
+    loading: query.isLoading || (loadAll && hasNextPage && !isFetchNextPageError),
+    loadingMore: isFetchingNextPage,
+    error: query.error,
+    hasMore: hasNextPage,
+    loadMore,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Looks up the document that already references a Walrus blob
+ * Loaded pages are checked first; the rest of the table is read only on a miss.
+ */
+export function useFindDocumentByBlobId() {
+  const client = useSuiClient();
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async (blobId: string): Promise<Document | null> => {
+      const cached = queryClient.getQueriesData<InfiniteData<DocumentPage>>({ queryKey: queryKeys.documents() });
+      for (const [, data] of cached) {
+        for (const page of data?.pages ?? []) {
+          const match = page.documents.find((doc) => doc.walrusBlobId === blobId);
+          if (match) return match;
+        }
+      }
+
+      const tableId = await fetchDocumentsTableId(queryClient, client);
+      return findDocumentByBlobId(client, tableId, blobId);
+    },
+    [client, queryClient]
+  );
 }
 
 /**
@@ -310,17 +974,14 @@ export function useDocuments() {
  */
 export function useAchievements(address: string | undefined) {
   const client = useSuiClient();
-  const [achievements, setAchievements] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
-
-  const fetch = useCallback(async () => {
-    if (!address) return;
-    
-    setLoading(true);
-    
-    try {
+
+  const query = useQuery({
+    queryKey: queryKeys.achievementsOf(address),
+    enabled: !!address,
+    staleTime: STALE_TIME.achievements,
+    queryFn: async (): Promise<AchievementNFT[]> => {
       const objects = await client.getOwnedObjects({
-        owner: address,
+        owner: address!,
         filter: {
           StructType: `${PACKAGE_ID}::achievement_nft::AchievementNFT`,
         },
@@ -330,31 +991,168 @@ export function useAchievements(address: string | undefined) {
         },
       });
 
-      const nfts = objects.data.map((obj) => {
-        if (obj.data?.content?.dataType === "moveObject") {
-          const fields = obj.data.content.fields as any;
-          return {
-            id: obj.data.objectId,
-            name: fields.name,
-            description: fields.description,
-            imageUrl: fields.image_url,
-            achievementType: Number(fields.achievement_type),
-            month: Number(fields.month),
-            rank: Number(fields.rank),
-            recipient: fields.recipient,
-            pointsEarned: Number(fields.points_earned),
-          };
-        }
-        return null;
-      }).filter(Boolean);
-
-      setAchievements(nfts);
-    } catch (err) {
-      console.error("Error fetching achievements:", err);
-    } finally {
-      setLoading(false);
-    }
-  }, [client, address]);
+      return objects.data.map((obj) =>
+        decodeAchievementNFT(moveObjectFields(obj, "achievement_nft::AchievementNFT"))
+      );
+    },
+  });
+
+  return { achievements: query.data ?? [], loading: query.isLoading, refetch: query.refetch };
+}
+
+/**
+ * Access groups created by an address
+ */
+export function useAccessGroups(owner: string | undefined) {
+  const client = useSuiClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.accessGroupsOf(owner),
+    enabled: !!owner,
+    staleTime: STALE_TIME.accessGroups,
+    queryFn: (): Promise<AccessGroup[]> => fetchOwnedAccessGroups(client, owner!),
+  });
+
+  return { groups: query.data ?? [], loading: query.isLoading, refetch: query.refetch };
+}
+
+/**
+ * ModeratorCap owned by an address, null if it is not a moderator
+ */
+export function useModeratorCap(address: string | undefined) {
+  const client = useSuiClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.moderatorCap(address),
+    enabled: !!address,
+    staleTime: STALE_TIME.moderatorCap,
+    queryFn: async (): Promise<string | null> => {
+      const objects = await client.getOwnedObjects({
+        owner: address!,
+        filter: {
+          StructType: `${PACKAGE_ID}::document_system::ModeratorCap`,
+        },
+      });
+      return objects.data[0]?.data?.objectId ?? null;
+    },
+  });
+
+  return { moderatorCapId: query.data ?? null, loading: query.isLoading };
+}
+
+/**
+ * Estimated expiry of the zkLogin session's ephemeral key
+ */
+export function useZkLoginExpiry() {
+  const client = useSuiClient();
+  const maxEpoch = useZkLoginSession()?.maxEpoch;
+
+  const query = useQuery({
+    queryKey: queryKeys.zkLoginExpiry(maxEpoch),
+    enabled: maxEpoch !== undefined,
+    staleTime: STALE_TIME.zkLoginExpiry,
+    refetchInterval: STALE_TIME.zkLoginExpiry,
+    queryFn: () => getZkLoginExpiry(client, maxEpoch!),
+  });
+
+  return { expiry: query.data ?? null, loading: query.isLoading };
+}
+
+/**
+ * Current Walrus epoch, used to tell how long documents stay stored
+ */
+export function useWalrusEpoch() {
+  const query = useQuery({
+    queryKey: queryKeys.walrusEpoch(),
+    staleTime: STALE_TIME.walrusEpoch,
+    queryFn: getWalrusEpochInfo,
+  });
+
+  return { epochInfo: query.data ?? null, loading: query.isLoading };
+}
+
+/**
+ * Seal-encrypts a file for upload by `uploader` under a fresh identity
+ * The files of a bundle share one identity, passed as `encryptionId`.
+ */
+export function useEncryptDocumentFile() {
+  const client = useSuiClient();
+
+  return useCallback(
+    async (uploader: string, data: Uint8Array, encryptionId = createEncryptionId(uploader)) => {
+      const bytes = await encryptDocumentFile(client, encryptionId, data);
+      return { encryptionId, bytes };
+    },
+    [client]
+  );
+}
+
+/**
+ * Reads a document's file from Walrus, decrypting encrypted documents for the active account
+ * The first decryption of a session asks the account to sign a Seal session key.
+ */
+export function useReadDocumentFile() {
+  const client = useSuiClient();
+  const signer = useTransactionSigner();
+
+  return useCallback(
+    async (doc: EncryptedDocumentSource, signal?: AbortSignal): Promise<Blob> => {
+      const blob = await getWalrusClient().readBlob(doc.walrusBlobId, signal);
+      if (!doc.encryptionId) return blob;
+      if (!signer) throw new DocumentDecryptionError("Log in to open encrypted documents.");
+
+      const bytes = await decryptDocumentFile(client, signer, doc, new Uint8Array(await blob.arrayBuffer()));
+      return new Blob([bytes as Uint8Array<ArrayBuffer>]);
+    },
+    [client, signer]
+  );
+}
+
+/**
+ * File list of a bundle document, read from its manifest blob
+ * Encrypted bundles are only read once `options.decrypt` is set, as for previews.
+ */
+export function useBundleManifest(doc: EncryptedDocumentSource | null, options?: { decrypt?: boolean }) {
+  const readFile = useReadDocumentFile();
+  const viewer = useTransactionSigner()?.address;
+  const encrypted = !!doc?.encryptionId;
+
+  const query = useQuery({
+    queryKey: queryKeys.bundleManifest(doc?.walrusBlobId, encrypted ? viewer : undefined),
+    enabled: !!doc && (!encrypted || !!options?.decrypt),
+    staleTime: STALE_TIME.bundleManifest,
+    retry: encrypted ? false : undefined,
+    queryFn: ({ signal }) => readBundleManifest(doc!, signal, readFile),
+  });
+
+  return { manifest: query.data ?? null, loading: query.isLoading, error: query.error };
+}
+
+/**
+ * Preview of a document's file, fetched from Walrus when the document is opened
+ * Pass null for documents without a real blob. Encrypted documents are only
+ * fetched once `options.decrypt` is set, since decrypting may ask for a signature.
+ */
+export function useDocumentPreview(doc: PreviewSource | null, options?: { decrypt?: boolean }) {
+  const readFile = useReadDocumentFile();
+  const viewer = useTransactionSigner()?.address;
+  const encrypted = !!doc?.encryptionId;
+
+  const query = useQuery({
+    queryKey: queryKeys.documentPreview(doc?.walrusBlobId, encrypted ? viewer : undefined),
+    enabled: !!doc && canPreview(doc) && (!encrypted || !!options?.decrypt),
+    staleTime: STALE_TIME.documentPreview,
+    // Opened PDFs hold the whole file, so closed previews are dropped soon
+    gcTime: 60_000,
+    // Denied access will not change on a retry
+    retry: encrypted ? false : undefined,
+    queryFn: ({ signal }) => loadDocumentPreview(doc!, signal, readFile),
+  });
 
-  return { achievements, loading, refetch: fetch };
+  return {
+    preview: query.data ?? null,
+    available: !!doc && canPreview(doc),
+    loading: query.isLoading,
+    error: query.error,
+  };
 }
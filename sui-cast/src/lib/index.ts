@@ -4,11 +4,26 @@ export {
   DOCUMENT_LIBRARY_ID,
   ACHIEVEMENT_MINTER_ID,
   CLOCK_ID,
+  DOCUMENT_CATEGORIES,
+  REPORT_REASONS,
+  REPORT_REASON_LABELS,
   createStudentProfile,
   uploadDocument,
+  extendDocumentStorage,
+  publishRevision,
+  updateDocument,
+  deleteDocument,
+  reportDocument,
+  hideDocument,
+  restoreDocument,
+  addModerator,
+  setDocumentAccess,
   voteDocument,
   addAchievementToProfile,
   updateMonthlyLeaderboard,
+  createAccessGroup,
+  addGroupMember,
+  removeGroupMember,
   mintMonthlyAchievement,
   mintUploaderAchievement,
   mintPopularDocumentAchievement,
@@ -16,22 +31,325 @@ export {
 
 export type {
   Document,
+  DocumentRevision,
+  DocumentReport,
+  ReportReason,
+  DocumentFileInfo,
+  DocumentEncryption,
+  AccessGroup,
   StudentProfile,
   LeaderboardEntry,
   AchievementNFT,
+  DocumentUploadedEvent,
+  DocumentStorageExtendedEvent,
+  DocumentRevisedEvent,
+  DocumentUpdatedEvent,
+  DocumentDeletedEvent,
+  DocumentReportedEvent,
+  DocumentModeratedEvent,
+  DocumentAccessChangedEvent,
+  AccessGroupCreatedEvent,
+  DocumentVotedEvent,
+  MonthlyLeaderboardUpdatedEvent,
 } from "./contracts";
 
+// Move Struct Decoders
+export {
+  MoveLayoutError,
+  parseU64,
+  u64ToNumber,
+  moveObjectFields,
+  decodeStudentProfile,
+  decodeDocument,
+  decodeDocumentRevision,
+  decodeDocumentReport,
+  decodeDocumentTableEntry,
+  decodeAccessGroup,
+  decodeLeaderboardEntry,
+  decodeAchievementNFT,
+  decodeDocumentUploadedEvent,
+  decodeDocumentStorageExtendedEvent,
+  decodeDocumentRevisedEvent,
+  decodeDocumentUpdatedEvent,
+  decodeDocumentDeletedEvent,
+  decodeDocumentReportedEvent,
+  decodeDocumentModeratedEvent,
+  decodeDocumentAccessChangedEvent,
+  decodeAccessGroupCreatedEvent,
+  decodeDocumentVotedEvent,
+  decodeMonthlyLeaderboardUpdatedEvent,
+} from "./decoders";
+
+// DocumentLibrary Table Reader
+export {
+  DOCUMENT_PAGE_SIZE,
+  getDocumentsTableId,
+  fetchDocumentPage,
+  fetchDocument,
+  findDocumentByBlobId,
+} from "./library";
+
+export type { DocumentPage } from "./library";
+
+// Move Abort Translation
+export {
+  ABORT_CODES,
+  MoveAbortError,
+  ContractError,
+  AlreadyVotedError,
+  CannotVoteOwnDocumentError,
+  DocumentNotFoundError,
+  ProfileNotFoundError,
+  NotUploaderError,
+  StorageNotExtendedError,
+  InvalidEncryptionIdError,
+  NoDocumentAccessError,
+  DocumentNotEncryptedError,
+  RevisionUnchangedError,
+  AlreadyReportedError,
+  InvalidReportReasonError,
+  NotGroupOwnerError,
+  AlreadyGroupMemberError,
+  NotGroupMemberError,
+  NotAdminError,
+  InvalidRankError,
+  parseMoveAbort,
+  errorFromAbort,
+  translateTransactionError,
+} from "./errors";
+
+export type { AbortCodeName, ContractModule, MoveAbortInfo } from "./errors";
+
+// Transaction Result Parsing
+export {
+  TRANSACTION_RESPONSE_OPTIONS,
+  parseExecutedTransaction,
+  findEvent,
+  findCreatedObject,
+} from "./transactions";
+
+export type { CreatedObject, ExecutedTransaction } from "./transactions";
+
+// Transaction Preflight
+export { InsufficientGasError, formatSui, preflightTransaction } from "./preflight";
+
+export type { PreflightResult } from "./preflight";
+
+// zkLogin Session
+export {
+  ZKLOGIN_STORAGE_KEYS,
+  subscribeZkLoginSession,
+  beginZkLogin,
+  readZkLoginCallback,
+  getPendingZkLoginData,
+  completeZkLogin,
+  finishZkLogin,
+  clearZkLoginSession,
+  restoreZkLoginSession,
+  followZkLoginLogout,
+  loadZkLoginSession,
+  requestZkProof,
+  getZkLoginProof,
+  getZkLoginExpiry,
+} from "./zklogin";
+
+export type {
+  StoredZkLoginData,
+  ZkLoginProof,
+  ZkLoginSession,
+  ZkLoginUserInfo,
+  ZkLoginExpiry,
+} from "./zklogin";
+
+// zkLogin OAuth Providers
+export { getConfiguredProviders, getProvider, buildAuthUrl, mapClaims } from "./zkloginProviders";
+
+export type { ZkLoginProviderId, ZkLoginProvider, ZkLoginClaimMapping } from "./zkloginProviders";
+
+// zkLogin Prover
+export { ProverError, proofCacheKey, createHttpProverClient, getProverClient } from "./prover";
+
+export type { ProverRequest, ProverClient, ProverClientOptions } from "./prover";
+
+// Encrypted Session Vault
+export { SESSION_VAULT_ENABLED, saveToVault, restoreFromVault, clearVault, onVaultCleared } from "./sessionVault";
+
+// zkLogin Salt Providers
+export { SaltServiceError, createHttpSaltProvider, devSaltProvider, getSaltProvider } from "./salt";
+
+export type { SaltProvider, SaltProviderKind } from "./salt";
+
+// Transaction Signers
+export { ZkLoginExpiredError, createWalletSigner, createZkLoginSigner } from "./signer";
+
+export type { SignerKind, TransactionSigner } from "./signer";
+
+// Auth Context
+export { AuthContext, useAuth } from "./auth";
+
+export type { AuthKind, AuthDisplayInfo, AuthContextValue } from "./auth";
+
+// Walrus Storage
+export {
+  WALRUS_DEFAULT_EPOCHS,
+  WALRUS_MAX_EPOCHS,
+  WALRUS_EXPIRY_WARNING_EPOCHS,
+  WalrusError,
+  WalrusUploadError,
+  WalrusReadError,
+  formatBytes,
+  prepareUpload,
+  createWalrusClient,
+  getWalrusClient,
+  getWalrusEpochInfo,
+  walrusEpochStart,
+  getBlobExpiry,
+} from "./walrus";
+
+export type {
+  WalrusEndpoint,
+  PublisherStats,
+  PublisherAttempt,
+  WalrusUploadPhase,
+  WalrusUploadProgress,
+  PreparedUpload,
+  WalrusUploadOptions,
+  WalrusUploadResult,
+  WalrusRenewOptions,
+  WalrusEpochInfo,
+  BlobExpiryStatus,
+  BlobExpiry,
+  WalrusClientConfig,
+  WalrusClient,
+} from "./walrus";
+
+// Document Files
+export {
+  DEFAULT_MIME_TYPE,
+  BUNDLE_MIME_TYPE,
+  fileExtension,
+  guessMimeType,
+  sniffMimeType,
+  getFileInfo,
+  getFileKind,
+  downloadFileName,
+  saveDocumentFile,
+} from "./files";
+
+export type { FileKind } from "./files";
+
+// Document Preview
+export { PREVIEW_MAX_BYTES, getPreviewKind, canPreview, loadDocumentPreview } from "./preview";
+
+export type { PreviewKind, DocumentPreview, PreviewSource, DocumentFileReader } from "./preview";
+
+// Seal Encryption
+export {
+  SEAL_THRESHOLD,
+  DocumentDecryptionError,
+  DocumentAccessDeniedError,
+  hasSessionKey,
+  createEncryptionId,
+  parseAccessList,
+  encryptDocumentFile,
+  fetchAccessGroups,
+  fetchOwnedAccessGroups,
+  isDirectReader,
+  decryptDocumentFile,
+} from "./seal";
+
+export type { EncryptedDocumentSource, AccessList } from "./seal";
+
+// Document Bundles
+export {
+  BUNDLE_MAX_FILES,
+  BundleError,
+  bundleFileName,
+  collectBundleFiles,
+  bundleName,
+  isBundle,
+  encodeBundleManifest,
+  parseBundleManifest,
+  readBundleManifest,
+  bundleFileSource,
+  buildBundleTree,
+  uploadBundle,
+  renewBundle,
+  zipBundle,
+  saveBundleZip,
+} from "./bundles";
+
+export type {
+  BundleEntry,
+  BundleManifest,
+  BundleFile,
+  UploadedBundleFile,
+  BundleUploadProgress,
+  BundleUploadOptions,
+  BundleUploadResult,
+  BundleTreeNode,
+  BundleSource,
+  BundleFileReader,
+} from "./bundles";
+
+// Document Revisions
+export {
+  DIFF_MAX_BYTES,
+  DiffTooLargeError,
+  listRevisions,
+  revisionSource,
+  canDiff,
+  uploadRevisionFiles,
+  diffLines,
+  foldUnchanged,
+  diffRevisions,
+} from "./revisions";
+
+export type {
+  RevisionSource,
+  RevisionEntry,
+  DiffLine,
+  DiffItem,
+  StoredRevisionFile,
+  RevisionUploadOptions,
+} from "./revisions";
+
+// Query Keys
+export { queryKeys, STALE_TIME } from "./queryKeys";
+
 // React Hooks
 export {
+  useZkLoginSession,
+  useTransactionSigner,
   useCreateStudentProfile,
   useUploadDocument,
+  useExtendDocumentStorage,
+  usePublishRevision,
+  useUpdateDocument,
+  useDeleteDocument,
+  useReportDocument,
+  useModerateDocument,
+  useSetDocumentAccess,
   useVoteDocument,
   useAddAchievementToProfile,
+  useCreateAccessGroup,
+  useUpdateGroupMember,
   useMintMonthlyAchievement,
   useMintUploaderAchievement,
   useMintPopularDocumentAchievement,
+  useUploadDocumentPreflight,
+  useVoteDocumentPreflight,
   useStudentProfile,
   useLibraryStats,
   useDocuments,
+  useFindDocumentByBlobId,
   useAchievements,
+  useAccessGroups,
+  useModeratorCap,
+  useZkLoginExpiry,
+  useWalrusEpoch,
+  useEncryptDocumentFile,
+  useReadDocumentFile,
+  useBundleManifest,
+  useDocumentPreview,
 } from "./hooks";
@@ -0,0 +1,120 @@
+/**
+ * DocumentLibrary Table Reader
+ * Reads Document state straight from the `documents: Table<ID, Document>`
+ * of the shared DocumentLibrary object instead of replaying events.
+ *
+ * Each table entry is a dynamic field `Field<ID, Document>` owned by the table.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import { DOCUMENT_LIBRARY_ID } from './contracts';
+import type { Document } from './contracts';
+import { decodeDocumentTableEntry, moveObjectFields, MoveLayoutError } from './decoders';
+
+// ==================== CONFIG ====================
+
+// Fullnode caps dynamic field pages at 50 entries
+export const DOCUMENT_PAGE_SIZE = 50;
+
+// ==================== TYPES ====================
+
+export interface DocumentPage {
+  documents: Document[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}
+
+// ==================== READERS ====================
+
+/**
+ * Resolves the object ID of `DocumentLibrary.documents`
+ * Table entries are dynamic fields of this ID, not of the library itself.
+ */
+export async function getDocumentsTableId(client: SuiClient): Promise<string> {
+  const object = await client.getObject({
+    id: DOCUMENT_LIBRARY_ID,
+    options: { showContent: true },
+  });
+
+  const fields = moveObjectFields(object, 'document_system::DocumentLibrary');
+  const documents = fields.documents as { fields?: { id?: { id?: unknown } } } | undefined;
+  const tableId = documents?.fields?.id?.id;
+  if (typeof tableId !== 'string') {
+    throw new MoveLayoutError('DocumentLibrary', 'documents', 'Table<ID, Document>', fields.documents);
+  }
+  return tableId;
+}
+
+/**
+ * Reads one page of documents from the table
+ * @param tableId - ID returned by getDocumentsTableId
+ * @param cursor - nextCursor of the previous page, or null for the first page
+ */
+export async function fetchDocumentPage(
+  client: SuiClient,
+  tableId: string,
+  cursor: string | null,
+  limit: number = DOCUMENT_PAGE_SIZE
+): Promise<DocumentPage> {
+  const page = await client.getDynamicFields({
+    parentId: tableId,
+    cursor,
+    limit,
+  });
+
+  const objects = page.data.length > 0
+    ? await client.multiGetObjects({
+        ids: page.data.map((field) => field.objectId),
+        options: { showContent: true },
+      })
+    : [];
+
+  const documents = objects.map((object) =>
+    decodeDocumentTableEntry(moveObjectFields(object, 'dynamic_field::Field'))
+  );
+
+  const nextCursor = page.nextCursor ?? null;
+  return {
+    documents,
+    nextCursor,
+    hasNextPage: page.hasNextPage && !!nextCursor,
+  };
+}
+
+/**
+ * Reads a single document by its ID
+ * Returns null if the document is not in the table.
+ */
+export async function fetchDocument(
+  client: SuiClient,
+  tableId: string,
+  documentId: string
+): Promise<Document | null> {
+  const response = await client.getDynamicFieldObject({
+    parentId: tableId,
+    name: { type: '0x2::object::ID', value: documentId },
+  });
+
+  if (response.error?.code === 'dynamicFieldNotFound') return null;
+  return decodeDocumentTableEntry(moveObjectFields(response, 'dynamic_field::Field'));
+}
+
+/**
+ * Finds the document that references a Walrus blob
+ * Walks the whole table, so prefer checking already loaded pages first.
+ * Returns null if no document uses the blob.
+ */
+export async function findDocumentByBlobId(
+  client: SuiClient,
+  tableId: string,
+  blobId: string
+): Promise<Document | null> {
+  let cursor: string | null = null;
+  do {
+    const page = await fetchDocumentPage(client, tableId, cursor);
+    const match = page.documents.find((doc) => doc.walrusBlobId === blobId);
+    if (match) return match;
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  return null;
+}
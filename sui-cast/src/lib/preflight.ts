@@ -0,0 +1,74 @@
+/**
+ * Transaction Preflight
+ * Dev-inspects a PTB before it reaches the wallet, so the UI can show the
+ * estimated gas and warn about a predicted abort without a wallet popup.
+ *
+ * devInspect needs no gas coins, so it also works for empty accounts.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { MIST_PER_SUI } from '@mysten/sui/utils';
+import { translateTransactionError } from './errors';
+
+// ==================== TYPES ====================
+
+export interface PreflightResult {
+  /** Net gas in MIST: computation + storage - storage rebate */
+  gasEstimate: bigint;
+  /** Up-front gas in MIST the sender must hold: computation + storage */
+  gasRequired: bigint;
+  /** Typed abort the transaction would hit (see errors.ts), or null */
+  error: Error | null;
+  /** True when the sender's SUI balance cannot cover gasRequired */
+  insufficientBalance: boolean;
+}
+
+// ==================== ERRORS ====================
+
+export class InsufficientGasError extends Error {
+  readonly gasRequired: bigint;
+
+  constructor(gasRequired: bigint) {
+    super(`Not enough SUI to pay for gas (about ${formatSui(gasRequired)} needed).`);
+    this.name = 'InsufficientGasError';
+    this.gasRequired = gasRequired;
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Formats a MIST amount as SUI, e.g. 2_150_000n -> "0.00215 SUI"
+ */
+export function formatSui(mist: bigint): string {
+  const sui = Number(mist) / Number(MIST_PER_SUI);
+  return `${sui.toLocaleString(undefined, { maximumFractionDigits: 6 })} SUI`;
+}
+
+/**
+ * Runs the transaction through devInspect as `sender`
+ * Pass a freshly built Transaction: devInspect sets its sender.
+ */
+export async function preflightTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string
+): Promise<PreflightResult> {
+  const [inspect, balance] = await Promise.all([
+    client.devInspectTransactionBlock({ transactionBlock: transaction, sender }),
+    client.getBalance({ owner: sender }),
+  ]);
+
+  const { gasUsed, status } = inspect.effects;
+  const gasRequired = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost);
+  const net = gasRequired - BigInt(gasUsed.storageRebate);
+  const failure = status.status === 'success' ? inspect.error : status.error ?? inspect.error;
+
+  return {
+    gasEstimate: net > 0n ? net : 0n,
+    gasRequired,
+    error: failure ? translateTransactionError(failure) : null,
+    insufficientBalance: BigInt(balance.totalBalance) < gasRequired,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Document Preview
+ * Turns a document's Walrus blob into something the document modal can show:
+ * PDFs are opened with pdf.js and rendered page by page, images are shown
+ * as-is, Markdown is rendered to sanitised HTML and source files are
+ * syntax-highlighted.
+ *
+ * pdf.js, marked, DOMPurify and highlight.js are only loaded when a document
+ * of that kind is opened, so they stay out of the main bundle.
+ *
+ * Encrypted documents are read through a reader that decrypts them (see
+ * useReadDocumentFile); the preview itself only ever sees plaintext.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Document } from './contracts';
+import { fileExtension, getFileKind, sniffMimeType } from './files';
+import type { EncryptedDocumentSource } from './seal';
+import { getWalrusClient } from './walrus';
+
+// ==================== CONFIG ====================
+
+// Larger files are offered for download only
+export const PREVIEW_MAX_BYTES = 25 * 1024 * 1024;
+// Highlighting is slow on big files; beyond this they are shown as plain text
+const HIGHLIGHT_MAX_CHARS = 200_000;
+
+// Extension -> highlight.js language; only these grammars are bundled
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cc: 'cpp',
+  py: 'python',
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  rs: 'rust',
+  go: 'go',
+  java: 'java',
+  sh: 'bash',
+  makefile: 'makefile',
+  json: 'json',
+  html: 'xml',
+  css: 'css',
+  sql: 'sql',
+  yaml: 'yaml',
+  yml: 'yaml',
+  move: 'rust', // close enough for keywords and literals
+};
+
+// ==================== TYPES ====================
+
+export type PreviewKind = 'pdf' | 'image' | 'markdown' | 'code' | 'text';
+
+export type DocumentPreview =
+  | { kind: 'pdf'; pdf: PDFDocumentProxy }
+  | { kind: 'image'; blob: Blob }
+  | { kind: 'markdown' | 'code' | 'text'; html: string };
+
+export type PreviewSource = Pick<Document, 'fileName' | 'mimeType' | 'fileSize'> & EncryptedDocumentSource;
+
+export type DocumentFileReader = (doc: PreviewSource, signal?: AbortSignal) => Promise<Blob>;
+
+// ==================== KIND ====================
+
+/**
+ * How a file can be previewed, or null if it can only be downloaded
+ */
+export function getPreviewKind(mimeType: string | null, fileName: string | null): PreviewKind | null {
+  if (mimeType === 'text/markdown' || (fileName && fileExtension(fileName) === 'md')) return 'markdown';
+
+  switch (getFileKind(mimeType, fileName)) {
+    case 'pdf':
+      return 'pdf';
+    case 'image':
+      return 'image';
+    case 'code':
+      return 'code';
+    case 'text':
+      return mimeType === 'text/html' ? 'code' : 'text';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether opening the document should fetch a preview at all
+ * Documents without file metadata are fetched and sniffed, most of them are PDFs.
+ */
+export function canPreview(doc: Pick<Document, 'fileName' | 'mimeType' | 'fileSize'>): boolean {
+  if (doc.fileSize !== null && doc.fileSize > PREVIEW_MAX_BYTES) return false;
+  if (!doc.mimeType && !doc.fileName) return true;
+  return getPreviewKind(doc.mimeType, doc.fileName) !== null;
+}
+
+// ==================== RENDERERS ====================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function loadHighlighter() {
+  const [{ default: hljs }, c, cpp, python, javascript, typescript, rust, go, java, bash, makefile, json, xml, css, sql, yaml] =
+    await Promise.all([
+      import('highlight.js/lib/core'),
+      import('highlight.js/lib/languages/c'),
+      import('highlight.js/lib/languages/cpp'),
+      import('highlight.js/lib/languages/python'),
+      import('highlight.js/lib/languages/javascript'),
+      import('highlight.js/lib/languages/typescript'),
+      import('highlight.js/lib/languages/rust'),
+      import('highlight.js/lib/languages/go'),
+      import('highlight.js/lib/languages/java'),
+      import('highlight.js/lib/languages/bash'),
+      import('highlight.js/lib/languages/makefile'),
+      import('highlight.js/lib/languages/json'),
+      import('highlight.js/lib/languages/xml'),
+      import('highlight.js/lib/languages/css'),
+      import('highlight.js/lib/languages/sql'),
+      import('highlight.js/lib/languages/yaml'),
+    ]);
+  const languages = { c, cpp, python, javascript, typescript, rust, go, java, bash, makefile, json, xml, css, sql, yaml };
+  for (const [name, language] of Object.entries(languages)) {
+    if (!hljs.getLanguage(name)) hljs.registerLanguage(name, language.default);
+  }
+  return hljs;
+}
+
+/**
+ * Highlighted HTML for a source file; the output only contains escaped text in spans
+ */
+async function highlightCode(code: string, fileName: string | null): Promise<string> {
+  const language = fileName ? LANGUAGE_BY_EXTENSION[fileExtension(fileName)] : undefined;
+  if (code.length > HIGHLIGHT_MAX_CHARS) return escapeHtml(code);
+
+  const hljs = await loadHighlighter();
+  return language ? hljs.highlight(code, { language }).value : hljs.highlightAuto(code).value;
+}
+
+/**
+ * Markdown rendered to HTML, with fenced code blocks highlighted
+ * The result is sanitised, since documents are written by other users.
+ */
+async function renderMarkdown(markdown: string): Promise<string> {
+  const [{ Marked }, { default: DOMPurify }, hljs] = await Promise.all([
+    import('marked'),
+    import('dompurify'),
+    loadHighlighter(),
+  ]);
+
+  const marked = new Marked({
+    gfm: true,
+    renderer: {
+      code({ text, lang }) {
+        const language = lang && hljs.getLanguage(lang) ? lang : undefined;
+        const html = language ? hljs.highlight(text, { language }).value : escapeHtml(text);
+        return `<pre><code class="hljs">${html}</code></pre>`;
+      },
+    },
+  });
+  return DOMPurify.sanitize(await marked.parse(markdown));
+}
+
+async function openPdf(bytes: Uint8Array): Promise<PDFDocumentProxy> {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  // isEvalSupported: fonts are compiled without eval, so documents cannot run code
+  return pdfjs.getDocument({ data: bytes, isEvalSupported: false }).promise;
+}
+
+// ==================== LOADER ====================
+
+const readPublicFile: DocumentFileReader = (doc, signal) => getWalrusClient().readBlob(doc.walrusBlobId, signal);
+
+/**
+ * Fetches a document through the Walrus aggregators and prepares its preview
+ * Returns null when the file turns out not to be previewable.
+ */
+export async function loadDocumentPreview(
+  doc: PreviewSource,
+  signal?: AbortSignal,
+  readFile: DocumentFileReader = readPublicFile
+): Promise<DocumentPreview | null> {
+  const blob = await readFile(doc, signal);
+  const mimeType = doc.mimeType ?? (await sniffMimeType(blob));
+  const kind = getPreviewKind(mimeType, doc.fileName);
+
+  switch (kind) {
+    case 'pdf':
+      return { kind, pdf: await openPdf(new Uint8Array(await blob.arrayBuffer())) };
+    case 'image':
+      // Shown through <img>, which does not run scripts embedded in SVGs
+      return { kind, blob: new Blob([blob], { type: mimeType ?? undefined }) };
+    case 'markdown':
+      return { kind, html: await renderMarkdown(await blob.text()) };
+    case 'code':
+      return { kind, html: await highlightCode(await blob.text(), doc.fileName) };
+    case 'text':
+      return { kind, html: escapeHtml(await blob.text()) };
+    default:
+      return null;
+  }
+}
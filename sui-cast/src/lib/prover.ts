@@ -0,0 +1,171 @@
+/**
+ * zkLogin Prover Client
+ * Turns a JWT and ephemeral public key into the zero-knowledge proof that
+ * zkLogin signatures carry. Any prover speaking Mysten's HTTP API works:
+ * the hosted dev prover, a self-hosted one, or server/mock-prover.js.
+ *
+ * Requests time out, transient failures (network, 429, 5xx) are retried
+ * with backoff, and proofs are cached per JWT and ephemeral key.
+ */
+
+import type { ZkLoginProof } from './zklogin';
+
+// ==================== CONFIG ====================
+
+const PROVER_URL =
+  (import.meta.env.VITE_ZK_PROVER_URL as string | undefined) ?? 'https://prover-dev.mystenlabs.com/v1';
+// Proof generation takes a few seconds on the hosted prover
+const DEFAULT_TIMEOUT_MS = Number(import.meta.env.VITE_ZK_PROVER_TIMEOUT_MS ?? 30_000);
+const DEFAULT_RETRIES = Number(import.meta.env.VITE_ZK_PROVER_RETRIES ?? 2);
+const RETRY_DELAY_MS = 1_000;
+
+// ==================== TYPES ====================
+
+/**
+ * Request body of the prover API
+ */
+export interface ProverRequest {
+  jwt: string;
+  extendedEphemeralPublicKey: string;
+  maxEpoch: string;
+  jwtRandomness: string;
+  salt: string;
+  keyClaimName: string;
+}
+
+export interface ProverClientOptions {
+  timeoutMs?: number;
+  /** Extra attempts after the first one, for retryable failures only */
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+export interface ProverClient {
+  url: string;
+  getProof: (request: ProverRequest) => Promise<ZkLoginProof>;
+}
+
+// ==================== ERRORS ====================
+
+export class ProverError extends Error {
+  readonly status?: number;
+  /** Whether asking again may succeed (timeouts, rate limits, server errors) */
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ProverError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// ==================== CACHE ====================
+
+/**
+ * A proof is only valid for the JWT and ephemeral key it was generated for
+ */
+export function proofCacheKey(request: Pick<ProverRequest, 'jwt' | 'extendedEphemeralPublicKey'>): string {
+  return `${request.extendedEphemeralPublicKey}:${request.jwt}`;
+}
+
+// ==================== CLIENT ====================
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function isProof(value: unknown): value is ZkLoginProof {
+  const proof = value as Partial<ZkLoginProof> | null;
+  return (
+    !!proof &&
+    !!proof.proofPoints &&
+    Array.isArray(proof.proofPoints.a) &&
+    !!proof.issBase64Details &&
+    typeof proof.headerBase64 === 'string'
+  );
+}
+
+async function postOnce(url: string, request: ProverRequest, timeoutMs: number): Promise<ZkLoginProof> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new ProverError(`Prover did not answer within ${Math.round(timeoutMs / 1000)}s`, { retryable: true });
+    }
+    throw new ProverError(`Prover is unreachable: ${(err as Error).message}`, { retryable: true });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new ProverError(`Prover error: ${res.status} ${detail || res.statusText}`, {
+      status: res.status,
+      retryable: isRetryableStatus(res.status),
+    });
+  }
+
+  const proof: unknown = await res.json();
+  if (!isProof(proof)) {
+    throw new ProverError('Prover returned an invalid proof');
+  }
+  return proof;
+}
+
+/**
+ * Creates a client for a prover at `url`
+ * Concurrent requests for the same JWT and key share one call; failed calls
+ * are dropped from the cache so the next attempt asks again.
+ */
+export function createHttpProverClient(url: string, options: ProverClientOptions = {}): ProverClient {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_MS;
+  const cache = new Map<string, Promise<ZkLoginProof>>();
+
+  const fetchWithRetries = async (request: ProverRequest) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await postOnce(url, request, timeoutMs);
+      } catch (err) {
+        if (!(err instanceof ProverError) || !err.retryable || attempt >= retries) throw err;
+        console.warn(`Prover attempt ${attempt + 1} failed, retrying:`, err.message);
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+      }
+    }
+  };
+
+  return {
+    url,
+    getProof: (request) => {
+      const key = proofCacheKey(request);
+      const cached = cache.get(key);
+      if (cached) return cached;
+
+      const pending = fetchWithRetries(request);
+      cache.set(key, pending);
+      pending.catch(() => cache.delete(key));
+      return pending;
+    },
+  };
+}
+
+let defaultClient: ProverClient | null = null;
+
+/**
+ * Client for VITE_ZK_PROVER_URL, shared so its cache is too
+ */
+export function getProverClient(): ProverClient {
+  defaultClient ??= createHttpProverClient(PROVER_URL);
+  return defaultClient;
+}
@@ -0,0 +1,57 @@
+/**
+ * TanStack Query keys shared by the query hooks
+ * Pages and transaction hooks invalidate through these keys, so every
+ * component reading the same data shares one cache entry.
+ */
+
+// ==================== KEYS ====================
+
+const root = ['sui-cast'] as const;
+
+export const queryKeys = {
+  all: root,
+  profiles: () => [...root, 'profile'] as const,
+  profile: (address: string | undefined) => [...root, 'profile', address] as const,
+  libraryStats: () => [...root, 'libraryStats'] as const,
+  documentsTable: () => [...root, 'documentsTable'] as const,
+  documents: () => [...root, 'documents'] as const,
+  documentPages: (pageSize: number) => [...root, 'documents', { pageSize }] as const,
+  achievements: () => [...root, 'achievements'] as const,
+  achievementsOf: (address: string | undefined) => [...root, 'achievements', address] as const,
+  zkLoginExpiry: (maxEpoch: number | undefined) => [...root, 'zkLoginExpiry', maxEpoch] as const,
+  walrusEpoch: () => [...root, 'walrusEpoch'] as const,
+  // Encrypted previews are decrypted for one account, so they are keyed by it
+  documentPreview: (blobId: string | undefined, viewer?: string) =>
+    [...root, 'documentPreview', blobId, viewer] as const,
+  bundleManifest: (blobId: string | undefined, viewer?: string) =>
+    [...root, 'bundleManifest', blobId, viewer] as const,
+  moderatorCap: (address: string | undefined) => [...root, 'moderatorCap', address] as const,
+  accessGroups: () => [...root, 'accessGroups'] as const,
+  accessGroupsOf: (owner: string | undefined) => [...root, 'accessGroups', owner] as const,
+  preflights: () => [...root, 'preflight'] as const,
+  preflight: (sender: string | undefined, parts: readonly unknown[]) =>
+    [...root, 'preflight', sender, ...parts] as const,
+};
+
+// ==================== STALE TIMES ====================
+
+// Surflux pushes fresh events, so lists can stay cached a little longer
+export const STALE_TIME = {
+  profile: 30_000,
+  libraryStats: 30_000,
+  documents: 15_000,
+  achievements: 60_000,
+  accessGroups: 30_000,
+  moderatorCap: 60_000,
+  // Epochs last hours, so the expiry estimate only needs an occasional refresh
+  zkLoginExpiry: 5 * 60_000,
+  // Walrus epochs last a day on testnet
+  walrusEpoch: 10 * 60_000,
+  // Blob contents never change for a blob ID
+  documentPreview: Infinity,
+  bundleManifest: Infinity,
+  // Gas prices and the sender's balance drift, but not within a form session
+  preflight: 10_000,
+  // The table ID of DocumentLibrary.documents never changes
+  documentsTable: Infinity,
+} as const;
@@ -0,0 +1,261 @@
+/**
+ * Document Revisions
+ * An uploader can replace a document's file with a corrected one
+ * (document_system::publish_revision). The document keeps its ID and votes,
+ * and lists the files it replaced, so older revisions stay downloadable.
+ *
+ * Text revisions can be compared line by line; the diff runs in the browser
+ * on the decrypted files.
+ */
+
+import type { Document, DocumentFileInfo } from './contracts';
+import { BUNDLE_MIME_TYPE, DEFAULT_MIME_TYPE, getFileInfo } from './files';
+import { bundleName, collectBundleFiles, uploadBundle } from './bundles';
+import { getPreviewKind } from './preview';
+import type { EncryptedDocumentSource } from './seal';
+import { getWalrusClient, prepareUpload } from './walrus';
+import type { PreparedUpload, WalrusUploadOptions } from './walrus';
+
+// ==================== CONFIG ====================
+
+// Larger files are offered for download only
+export const DIFF_MAX_BYTES = 1024 * 1024;
+// Cells of the LCS table left after trimming the common start and end
+const DIFF_MAX_CELLS = 4_000_000;
+// Unchanged lines shown around each change
+const DIFF_CONTEXT_LINES = 3;
+
+// ==================== TYPES ====================
+
+export type RevisionSource = EncryptedDocumentSource &
+  Pick<
+    Document,
+    'title' | 'fileName' | 'mimeType' | 'fileSize' | 'walrusEndEpoch' | 'revisionNote' | 'revisionTimestamp' | 'revisions'
+  >;
+
+export interface RevisionEntry {
+  /** 1 is the original upload */
+  number: number;
+  current: boolean;
+  walrusBlobId: string;
+  walrusEndEpoch: number | null;
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  note: string;
+  timestamp: number;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  /** Line number in the older file, null for added lines */
+  oldLine: number | null;
+  /** Line number in the newer file, null for removed lines */
+  newLine: number | null;
+}
+
+export type DiffItem = DiffLine | { type: 'skipped'; count: number };
+
+export interface StoredRevisionFile {
+  walrusBlobId: string;
+  walrusEndEpoch: number | null;
+  file: DocumentFileInfo;
+}
+
+export interface RevisionUploadOptions extends WalrusUploadOptions {
+  /** Upload the files as a bundle instead of a single file */
+  bundle?: boolean;
+  /** Applied to the file (or every file of a bundle) before upload, e.g. Seal encryption */
+  transform?: (bytes: Uint8Array) => Promise<Uint8Array>;
+}
+
+// ==================== ERRORS ====================
+
+export class DiffTooLargeError extends Error {
+  constructor() {
+    super('These revisions differ too much to be compared in the browser. Download them instead.');
+    this.name = 'DiffTooLargeError';
+  }
+}
+
+// ==================== REVISIONS ====================
+
+/**
+ * Every revision of a document, newest (the current file) first
+ */
+export function listRevisions(doc: RevisionSource): RevisionEntry[] {
+  const past = doc.revisions.map((revision, index) => ({ ...revision, number: index + 1, current: false }));
+  const current: RevisionEntry = {
+    number: doc.revisions.length + 1,
+    current: true,
+    walrusBlobId: doc.walrusBlobId,
+    walrusEndEpoch: doc.walrusEndEpoch,
+    fileName: doc.fileName,
+    mimeType: doc.mimeType,
+    fileSize: doc.fileSize,
+    note: doc.revisionNote,
+    timestamp: doc.revisionTimestamp,
+  };
+  return [current, ...past.reverse()];
+}
+
+/**
+ * What reading one revision's file needs; all revisions share the document's encryption
+ */
+export function revisionSource<T extends EncryptedDocumentSource>(doc: T, revision: Pick<RevisionEntry, 'walrusBlobId'>): T {
+  return { ...doc, walrusBlobId: revision.walrusBlobId };
+}
+
+/**
+ * Whether two revisions are text files small enough to diff
+ */
+export function canDiff(...revisions: Pick<RevisionEntry, 'mimeType' | 'fileName' | 'fileSize'>[]): boolean {
+  return revisions.every((revision) => {
+    const kind = getPreviewKind(revision.mimeType, revision.fileName);
+    const isText = kind === 'text' || kind === 'code' || kind === 'markdown';
+    return isText && revision.fileSize !== null && revision.fileSize <= DIFF_MAX_BYTES;
+  });
+}
+
+// ==================== UPLOAD ====================
+
+/**
+ * Stores the new file of a revision on Walrus
+ * Bundle documents take several files (or a folder) and store them as a new bundle.
+ */
+export async function uploadRevisionFiles(
+  files: File[],
+  options: RevisionUploadOptions = {}
+): Promise<StoredRevisionFile> {
+  const { bundle, transform, ...uploadOptions } = options;
+
+  if (bundle) {
+    const bundleFiles = collectBundleFiles(files);
+    const result = await uploadBundle(bundleFiles, { ...uploadOptions, transform });
+    return {
+      walrusBlobId: result.blobId,
+      walrusEndEpoch: result.endEpoch,
+      file: { fileName: bundleName(bundleFiles), mimeType: BUNDLE_MIME_TYPE, fileSize: result.totalSize },
+    };
+  }
+
+  const [file] = files;
+  let prepared: PreparedUpload = await prepareUpload(file, {
+    signal: uploadOptions.signal,
+    onProgress: uploadOptions.onProgress,
+  });
+  if (transform) {
+    const bytes = (await transform(prepared.bytes)) as Uint8Array<ArrayBuffer>;
+    prepared = { bytes, type: DEFAULT_MIME_TYPE, size: bytes.length };
+  }
+  const result = await getWalrusClient().upload(prepared, uploadOptions);
+  return { walrusBlobId: result.blobId, walrusEndEpoch: result.endEpoch, file: getFileInfo(file) };
+}
+
+// ==================== DIFF ====================
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ * The common start and end are trimmed first, so small edits to large files stay cheap.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > DIFF_MAX_CELLS) throw new DiffTooLargeError();
+
+  // lcs[i * width + j]: LCS length of the changed middles from a[start + i] and b[start + j] on
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const same = (text: string) => lines.push({ type: 'same', text, oldLine: oldLine++, newLine: newLine++ });
+
+  for (let k = 0; k < start; k++) same(a[k]);
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      same(a[start + i]);
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      lines.push({ type: 'removed', text: a[start + i], oldLine: oldLine++, newLine: null });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[start + j], oldLine: null, newLine: newLine++ });
+      j++;
+    }
+  }
+  for (let k = endA; k < a.length; k++) same(a[k]);
+
+  return lines;
+}
+
+/**
+ * Collapses unchanged lines that are not within `context` lines of a change
+ */
+export function foldUnchanged(lines: DiffLine[], context = DIFF_CONTEXT_LINES): DiffItem[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) keep[k] = true;
+  });
+
+  const items: DiffItem[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      items.push(line);
+      return;
+    }
+    const last = items[items.length - 1];
+    if (last?.type === 'skipped') last.count++;
+    else items.push({ type: 'skipped', count: 1 });
+  });
+  return items;
+}
+
+/**
+ * Reads two revisions of a document and diffs them
+ */
+export async function diffRevisions(
+  doc: EncryptedDocumentSource,
+  older: Pick<RevisionEntry, 'walrusBlobId'>,
+  newer: Pick<RevisionEntry, 'walrusBlobId'>,
+  readFile: (doc: EncryptedDocumentSource, signal?: AbortSignal) => Promise<Blob>,
+  signal?: AbortSignal
+): Promise<DiffLine[]> {
+  const [oldBlob, newBlob] = await Promise.all([
+    readFile(revisionSource(doc, older), signal),
+    readFile(revisionSource(doc, newer), signal),
+  ]);
+  return diffLines(await oldBlob.text(), await newBlob.text());
+}
@@ -0,0 +1,118 @@
+/**
+ * zkLogin Salt Providers
+ * The salt links an OAuth identity to its zkLogin address, so it must be
+ * stable for a user and unknown to everyone else. Providers take the raw JWT
+ * and return the salt as a decimal string.
+ *
+ * - http: the salt service in server/salt-service.js (or any compatible one)
+ * - dev:  the old 32-bit hash of the email; guessable, only for local demos
+ */
+
+import { jwtDecode } from 'jwt-decode';
+
+// ==================== CONFIG ====================
+
+const SALT_SERVICE_URL = import.meta.env.VITE_ZKLOGIN_SALT_URL as string | undefined;
+const SALT_MODE = import.meta.env.VITE_ZKLOGIN_SALT_MODE as string | undefined;
+
+// Once per page load, rather than on every login and session restore
+if (SALT_MODE === 'dev') {
+  console.warn('zkLogin salt is in dev mode: addresses are derived from a guessable hash.');
+}
+
+// ==================== TYPES ====================
+
+export type SaltProviderKind = 'http' | 'dev';
+
+export interface SaltProvider {
+  kind: SaltProviderKind;
+  getSalt: (jwt: string) => Promise<string>;
+}
+
+type JwtPayload = {
+  email?: string;
+  sub?: string;
+};
+
+// ==================== ERRORS ====================
+
+export class SaltServiceError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'SaltServiceError';
+    this.status = status;
+  }
+}
+
+// ==================== PROVIDERS ====================
+
+/**
+ * Asks a salt service for the salt of the JWT's identity
+ * The service verifies the JWT, so only its owner can learn the salt.
+ */
+export function createHttpSaltProvider(url: string): SaltProvider {
+  return {
+    kind: 'http',
+    getSalt: async (jwt) => {
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jwt }),
+        });
+      } catch (err) {
+        throw new SaltServiceError(`Salt service is unreachable: ${(err as Error).message}`);
+      }
+
+      if (!res.ok) {
+        const detail = await res.text();
+        throw new SaltServiceError(`Salt service error: ${res.status} ${detail || res.statusText}`, res.status);
+      }
+
+      const { salt } = (await res.json()) as { salt?: unknown };
+      if (typeof salt !== 'string' || !/^\d+$/.test(salt)) {
+        throw new SaltServiceError('Salt service returned an invalid salt');
+      }
+      return salt;
+    },
+  };
+}
+
+// Simple string -> number hash (like in the tutorial)
+function hashcode(s: string): string {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) {
+    h = (h << 5) - h + s.charCodeAt(i);
+    h |= 0;
+  }
+  return BigInt(h >>> 0).toString();
+}
+
+/**
+ * Derives the salt from a 32-bit hash of the email
+ * Anyone who knows the email can compute it; never use it outside local demos.
+ */
+export const devSaltProvider: SaltProvider = {
+  kind: 'dev',
+  getSalt: async (jwt) => {
+    const payload = jwtDecode<JwtPayload>(jwt);
+    return hashcode(payload.email ?? payload.sub ?? 'default-user');
+  },
+};
+
+/**
+ * Provider selected by VITE_ZKLOGIN_SALT_URL / VITE_ZKLOGIN_SALT_MODE
+ * Dev mode has to be asked for explicitly; without a URL the login fails.
+ */
+export function getSaltProvider(): SaltProvider {
+  if (SALT_MODE === 'dev') return devSaltProvider;
+  if (!SALT_SERVICE_URL) {
+    throw new SaltServiceError(
+      'VITE_ZKLOGIN_SALT_URL is not defined. Start the salt service or set VITE_ZKLOGIN_SALT_MODE=dev.'
+    );
+  }
+  return createHttpSaltProvider(SALT_SERVICE_URL);
+}
@@ -0,0 +1,298 @@
+/**
+ * Seal Encryption
+ * Restricted documents are encrypted in the browser with Seal before they are
+ * published, so Walrus only ever serves ciphertext. Every file gets its own
+ * identity (uploader address ++ random nonce) and the Seal key servers only
+ * release its key to senders that document_system::seal_approve* accepts:
+ * the uploader, the addresses listed on the document and the members of its
+ * access groups.
+ *
+ * Decrypting needs a session key, certified once by the account with a
+ * personal message signature (no gas) and reused until it expires.
+ */
+
+import type { EventId, SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { fromHex, isValidSuiAddress, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { DOCUMENT_LIBRARY_ID, PACKAGE_ID } from './contracts';
+import type { AccessGroup, Document } from './contracts';
+import { decodeAccessGroup, decodeAccessGroupCreatedEvent, moveObjectFields } from './decoders';
+import type { TransactionSigner } from './signer';
+
+// ==================== CONFIG ====================
+
+// Mysten Labs' open-mode testnet key servers
+const DEFAULT_KEY_SERVERS = [
+  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
+  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8',
+];
+
+const KEY_SERVERS = parseKeyServers(import.meta.env.VITE_SEAL_KEY_SERVERS) ?? DEFAULT_KEY_SERVERS;
+
+// Key servers that must answer to decrypt; 2 of the defaults
+export const SEAL_THRESHOLD = Number(import.meta.env.VITE_SEAL_THRESHOLD) || Math.min(2, KEY_SERVERS.length);
+
+const SESSION_KEY_TTL_MIN = 30;
+const NONCE_BYTES = 16;
+
+function parseKeyServers(value: string | undefined): string[] | null {
+  const ids = value
+    ?.split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids?.length ? ids : null;
+}
+
+// ==================== TYPES ====================
+
+export type EncryptedDocumentSource = Pick<
+  Document,
+  'id' | 'walrusBlobId' | 'uploader' | 'encryptionId' | 'allowedReaders' | 'allowedGroups'
+>;
+
+export interface AccessList {
+  entries: string[];
+  invalid: string[];
+}
+
+// ==================== ERRORS ====================
+
+export class DocumentDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentDecryptionError';
+  }
+}
+
+/**
+ * Raised before contacting the key servers when the account is neither
+ * a listed reader nor a member of one of the document's groups
+ */
+export class DocumentAccessDeniedError extends DocumentDecryptionError {
+  constructor() {
+    super('This document is encrypted and has not been shared with your account.');
+    this.name = 'DocumentAccessDeniedError';
+  }
+}
+
+// ==================== CLIENT ====================
+
+type SealModule = typeof import('@mysten/seal');
+type SealClient = import('@mysten/seal').SealClient;
+type SessionKey = import('@mysten/seal').SessionKey;
+
+let sealModule: Promise<SealModule> | null = null;
+const sealClients = new WeakMap<SuiClient, SealClient>();
+const sessionKeys = new Map<string, SessionKey>();
+const pendingSessionKeys = new Map<string, Promise<SessionKey>>();
+
+/**
+ * @mysten/seal, loaded on demand since its pairing crypto is large
+ */
+function loadSeal(): Promise<SealModule> {
+  sealModule ??= import('@mysten/seal');
+  return sealModule;
+}
+
+async function getSealClient(client: SuiClient): Promise<SealClient> {
+  const { SealClient } = await loadSeal();
+  let sealClient = sealClients.get(client);
+  if (!sealClient) {
+    sealClient = new SealClient({
+      suiClient: client,
+      serverConfigs: KEY_SERVERS.map((objectId) => ({ objectId, weight: 1 })),
+      verifyKeyServers: false,
+    });
+    sealClients.set(client, sealClient);
+  }
+  return sealClient;
+}
+
+async function createSessionKey(client: SuiClient, signer: TransactionSigner): Promise<SessionKey> {
+  const { SessionKey } = await loadSeal();
+  const key = await SessionKey.create({
+    address: signer.address,
+    packageId: PACKAGE_ID,
+    ttlMin: SESSION_KEY_TTL_MIN,
+    suiClient: client,
+  });
+  await key.setPersonalMessageSignature(await signer.signPersonalMessage(key.getPersonalMessage()));
+  return key;
+}
+
+/**
+ * Session key of the signer, asking for a signature when none is cached or it expired
+ * Concurrent callers share one signature request.
+ */
+async function getSessionKey(client: SuiClient, signer: TransactionSigner): Promise<SessionKey> {
+  const cached = sessionKeys.get(signer.address);
+  if (cached && !cached.isExpired()) return cached;
+
+  let pending = pendingSessionKeys.get(signer.address);
+  if (!pending) {
+    pending = createSessionKey(client, signer).finally(() => pendingSessionKeys.delete(signer.address));
+    pendingSessionKeys.set(signer.address, pending);
+  }
+  const key = await pending;
+  sessionKeys.set(signer.address, key);
+  return key;
+}
+
+/**
+ * Whether `address` can decrypt without being asked for a signature
+ */
+export function hasSessionKey(address: string | null | undefined): boolean {
+  const key = address ? sessionKeys.get(address) : undefined;
+  return !!key && !key.isExpired();
+}
+
+// ==================== ENCRYPTION ====================
+
+/**
+ * Fresh Seal identity for a file of `uploader`, as hex
+ * upload_document only accepts identities that start with the sender's address.
+ */
+export function createEncryptionId(uploader: string): string {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  return toHex(new Uint8Array([...fromHex(normalizeSuiAddress(uploader)), ...nonce]));
+}
+
+/**
+ * Parses the addresses or object IDs of a reader / group field
+ * Entries may be separated by commas, spaces or new lines.
+ */
+export function parseAccessList(text: string): AccessList {
+  const entries: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of text.split(/[\s,]+/).filter(Boolean)) {
+    const normalized = normalizeSuiAddress(entry);
+    if (!isValidSuiAddress(normalized) || !/^(0x)?[0-9a-fA-F]+$/.test(entry)) {
+      invalid.push(entry);
+    } else if (!entries.includes(normalized)) {
+      entries.push(normalized);
+    }
+  }
+  return { entries, invalid };
+}
+
+/**
+ * Encrypts a file under the document_system policy of this package
+ */
+export async function encryptDocumentFile(
+  client: SuiClient,
+  encryptionId: string,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  const sealClient = await getSealClient(client);
+  const { encryptedObject } = await sealClient.encrypt({
+    threshold: SEAL_THRESHOLD,
+    packageId: PACKAGE_ID,
+    id: encryptionId,
+    data,
+  });
+  return encryptedObject;
+}
+
+// ==================== DECRYPTION ====================
+
+/**
+ * Access groups by ID; deleted or foreign objects are skipped
+ */
+export async function fetchAccessGroups(client: SuiClient, groupIds: string[]): Promise<AccessGroup[]> {
+  if (groupIds.length === 0) return [];
+  const objects = await client.multiGetObjects({ ids: groupIds, options: { showContent: true } });
+  return objects
+    .filter((object) => object.data?.content?.dataType === 'moveObject')
+    .map((object) => decodeAccessGroup(moveObjectFields(object, 'access_group::AccessGroup')));
+}
+
+/**
+ * Access groups created by `owner`, newest first
+ * Groups are shared objects, so they are found through their creation events.
+ */
+export async function fetchOwnedAccessGroups(client: SuiClient, owner: string): Promise<AccessGroup[]> {
+  const groupIds: string[] = [];
+  let cursor: EventId | null | undefined = null;
+  do {
+    const page = await client.queryEvents({
+      query: { MoveEventType: `${PACKAGE_ID}::access_group::AccessGroupCreated` },
+      cursor,
+      order: 'descending',
+    });
+    for (const event of page.data) {
+      const created = decodeAccessGroupCreatedEvent(event.parsedJson);
+      if (created.owner === owner) groupIds.push(created.group_id);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return fetchAccessGroups(client, groupIds);
+}
+
+/**
+ * Whether `address` can decrypt the document without looking up its groups
+ */
+export function isDirectReader(doc: EncryptedDocumentSource, address: string): boolean {
+  return doc.uploader === address || doc.allowedReaders.includes(address);
+}
+
+/**
+ * seal_approve call the key servers dry-run for `address`
+ * Direct readers use seal_approve, everyone else the first group they belong to.
+ */
+async function buildApproveTransaction(
+  client: SuiClient,
+  doc: EncryptedDocumentSource,
+  address: string
+): Promise<Uint8Array> {
+  const tx = new Transaction();
+  const id = tx.pure.vector('u8', fromHex(doc.encryptionId!));
+
+  if (isDirectReader(doc, address)) {
+    tx.moveCall({
+      target: `${PACKAGE_ID}::document_system::seal_approve`,
+      arguments: [id, tx.object(DOCUMENT_LIBRARY_ID), tx.pure.id(doc.id)],
+    });
+  } else {
+    const groups = await fetchAccessGroups(client, doc.allowedGroups);
+    const group = groups.find((g) => g.owner === address || g.members.includes(address));
+    if (!group) throw new DocumentAccessDeniedError();
+
+    tx.moveCall({
+      target: `${PACKAGE_ID}::document_system::seal_approve_group`,
+      arguments: [id, tx.object(DOCUMENT_LIBRARY_ID), tx.pure.id(doc.id), tx.object(group.id)],
+    });
+  }
+
+  return tx.build({ client, onlyTransactionKind: true });
+}
+
+/**
+ * Decrypts an encrypted document's file for the signer's account
+ * The first call per session asks the account to sign a session key.
+ */
+export async function decryptDocumentFile(
+  client: SuiClient,
+  signer: TransactionSigner,
+  doc: EncryptedDocumentSource,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  if (!doc.encryptionId) return data;
+
+  const txBytes = await buildApproveTransaction(client, doc, signer.address);
+  const [seal, sealClient, sessionKey] = await Promise.all([
+    loadSeal(),
+    getSealClient(client),
+    getSessionKey(client, signer),
+  ]);
+
+  try {
+    return await sealClient.decrypt({ data, sessionKey, txBytes });
+  } catch (err) {
+    if (err instanceof seal.NoAccessError) throw new DocumentAccessDeniedError();
+    if (err instanceof seal.ExpiredSessionKeyError) sessionKeys.delete(signer.address);
+    throw new DocumentDecryptionError(
+      `Could not decrypt the document: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Encrypted Session Vault
+ * Mirrors selected sessionStorage entries into localStorage, encrypted with
+ * AES-GCM, so a login survives into new tabs. Enabled with
+ * VITE_ZKLOGIN_PERSIST_SESSION=true.
+ *
+ * The AES key is a non-extractable CryptoKey kept in IndexedDB: scripts can
+ * use it in this origin, but it never appears as raw bytes in storage.
+ */
+
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+
+// ==================== CONFIG ====================
+
+export const SESSION_VAULT_ENABLED = import.meta.env.VITE_ZKLOGIN_PERSIST_SESSION === 'true';
+
+const VAULT_STORAGE_KEY = 'zklogin_vault';
+const DB_NAME = 'sui-cast';
+const DB_STORE = 'keys';
+const KEY_ID = 'session-vault';
+
+// ==================== TYPES ====================
+
+interface VaultPayload {
+  iv: string;
+  data: string;
+}
+
+// ==================== KEY STORAGE ====================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Returns the vault key, creating it on first use
+ */
+async function getVaultKey(): Promise<CryptoKey> {
+  const db = await openDatabase();
+  try {
+    const existing = await idbRequest<CryptoKey | undefined>(db, 'readonly', (store) => store.get(KEY_ID));
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    await idbRequest(db, 'readwrite', (store) => store.put(key, KEY_ID));
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+// ==================== VAULT ====================
+
+/**
+ * Encrypts the current values of `keys` from sessionStorage into the vault
+ */
+export async function saveToVault(keys: readonly string[]): Promise<void> {
+  if (!SESSION_VAULT_ENABLED) return;
+
+  const entries: Record<string, string> = {};
+  for (const key of keys) {
+    const value = sessionStorage.getItem(key);
+    if (value !== null) entries[key] = value;
+  }
+
+  try {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(entries));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getVaultKey(), plaintext);
+
+    const payload: VaultPayload = { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(payload));
+  } catch (err) {
+    console.warn('Session could not be persisted:', err);
+  }
+}
+
+/**
+ * Copies the vault into sessionStorage of this tab
+ * Resolves to false when the vault is disabled, empty or unreadable.
+ */
+export async function restoreFromVault(): Promise<boolean> {
+  if (!SESSION_VAULT_ENABLED) return false;
+
+  const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+  if (!stored) return false;
+
+  try {
+    const { iv, data } = JSON.parse(stored) as VaultPayload;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      await getVaultKey(),
+      fromBase64(data)
+    );
+
+    const entries = JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, string>;
+    Object.entries(entries).forEach(([key, value]) => sessionStorage.setItem(key, value));
+    return true;
+  } catch (err) {
+    // A vault sealed with a key that no longer exists is useless
+    console.warn('Persisted session could not be restored:', err);
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    return false;
+  }
+}
+
+export function clearVault() {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+}
+
+/**
+ * Calls `listener` when another tab clears the vault (e.g. on logout)
+ */
+export function onVaultCleared(listener: () => void): () => void {
+  const handler = (event: StorageEvent) => {
+    if (event.key === VAULT_STORAGE_KEY && event.newValue === null) listener();
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+}
@@ -0,0 +1,111 @@
+/**
+ * Transaction Signers
+ * One interface for the two kinds of accounts: a connected wallet signs and
+ * executes through dapp-kit, a zkLogin account signs with its ephemeral key
+ * and ZK proof and executes directly against the fullnode.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { getZkLoginSignature } from '@mysten/sui/zklogin';
+import { getZkLoginProof } from './zklogin';
+import type { ZkLoginProof, ZkLoginSession } from './zklogin';
+
+// ==================== TYPES ====================
+
+export type SignerKind = 'wallet' | 'zklogin';
+
+export interface TransactionSigner {
+  kind: SignerKind;
+  address: string;
+  /** Signs and submits the transaction, resolving with its digest */
+  signAndExecute: (transaction: Transaction) => Promise<string>;
+  /** Signs a personal message, resolving with the serialized signature */
+  signPersonalMessage: (message: Uint8Array) => Promise<string>;
+}
+
+// ==================== ERRORS ====================
+
+export class ZkLoginExpiredError extends Error {
+  readonly maxEpoch: number;
+
+  constructor(maxEpoch: number) {
+    super('Your zkLogin session has expired. Please log in again.');
+    this.name = 'ZkLoginExpiredError';
+    this.maxEpoch = maxEpoch;
+  }
+}
+
+// ==================== SIGNERS ====================
+
+/**
+ * Wraps dapp-kit's signAndExecute and signPersonalMessage mutations of the connected wallet
+ */
+export function createWalletSigner(
+  address: string,
+  signAndExecute: (args: { transaction: Transaction }) => Promise<{ digest: string }>,
+  signPersonalMessage: (args: { message: Uint8Array }) => Promise<{ signature: string }>
+): TransactionSigner {
+  return {
+    kind: 'wallet',
+    address,
+    signAndExecute: async (transaction) => {
+      const { digest } = await signAndExecute({ transaction });
+      return digest;
+    },
+    signPersonalMessage: async (message) => {
+      const { signature } = await signPersonalMessage({ message });
+      return signature;
+    },
+  };
+}
+
+/**
+ * Signs with the ephemeral keypair of a zkLogin session
+ * The ephemeral key is only valid up to maxEpoch, so later epochs fail fast.
+ */
+export function createZkLoginSigner(client: SuiClient, session: ZkLoginSession): TransactionSigner {
+  const assertNotExpired = async () => {
+    const { epoch } = await client.getLatestSuiSystemState();
+    if (Number(epoch) > session.maxEpoch) {
+      throw new ZkLoginExpiredError(session.maxEpoch);
+    }
+  };
+
+  const wrapSignature = (proof: ZkLoginProof, userSignature: string) =>
+    getZkLoginSignature({
+      inputs: { ...proof, addressSeed: session.addressSeed },
+      maxEpoch: session.maxEpoch,
+      userSignature,
+    });
+
+  return {
+    kind: 'zklogin',
+    address: session.address,
+    signAndExecute: async (transaction) => {
+      await assertNotExpired();
+
+      transaction.setSenderIfNotSet(session.address);
+      const [proof, bytes] = await Promise.all([
+        getZkLoginProof(session),
+        transaction.build({ client }),
+      ]);
+
+      const { signature: userSignature } = await session.ephemeralKeyPair.signTransaction(bytes);
+      const { digest } = await client.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature: wrapSignature(proof, userSignature),
+      });
+      return digest;
+    },
+    signPersonalMessage: async (message) => {
+      await assertNotExpired();
+
+      const [proof, { signature: userSignature }] = await Promise.all([
+        getZkLoginProof(session),
+        session.ephemeralKeyPair.signPersonalMessage(message),
+      ]);
+      return wrapSignature(proof, userSignature);
+    },
+  };
+}
@@ -7,6 +7,8 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { PACKAGE_ID } from './contracts';
+import type { DocumentUploadedEvent, DocumentVotedEvent } from './contracts';
+import { decodeDocumentUploadedEvent, decodeDocumentVotedEvent } from './decoders';
 
 // ==================== CONFIG ====================
 
@@ -30,20 +32,7 @@ export interface SurfluxEvent {
   };
 }
 
-export interface DocumentUploadedEvent {
-  document_id: string;
-  uploader: string;
-  title: string;
-  walrus_blob_id: string;
-  category: string;
-  timestamp: number;
-}
-
-export interface DocumentVotedEvent {
-  document_id: string;
-  voter: string;
-  new_vote_count: number;
-}
+export type { DocumentUploadedEvent, DocumentVotedEvent };
 
 export type DocumentEventType = 'DocumentUploaded' | 'DocumentVoted';
 
@@ -213,14 +202,13 @@ export function useDocumentEventStream(options?: {
 
     // DocumentUploaded event
     if (eventType.includes('DocumentUploaded')) {
-      const uploadEvent: DocumentUploadedEvent = {
-        document_id: contents.document_id as string,
-        uploader: contents.uploader as string,
-        title: contents.title as string,
-        walrus_blob_id: contents.walrus_blob_id as string,
-        category: contents.category as string,
-        timestamp: Number(contents.timestamp || event.timestamp_ms),
-      };
+      let uploadEvent: DocumentUploadedEvent;
+      try {
+        uploadEvent = decodeDocumentUploadedEvent(contents);
+      } catch (err) {
+        console.error('[Surflux] Failed to decode DocumentUploaded:', err);
+        return;
+      }
 
       
       setRecentEvents(prev => [{
@@ -238,11 +226,13 @@ export function useDocumentEventStream(options?: {
 
     // DocumentVoted event
     if (eventType.includes('DocumentVoted')) {
-      const voteEvent: DocumentVotedEvent = {
-        document_id: contents.document_id as string,
-        voter: contents.voter as string,
-        new_vote_count: Number(contents.new_vote_count || 0),
-      };
+      let voteEvent: DocumentVotedEvent;
+      try {
+        voteEvent = decodeDocumentVotedEvent(contents);
+      } catch (err) {
+        console.error('[Surflux] Failed to decode DocumentVoted:', err);
+        return;
+      }
 
       
       setRecentEvents(prev => [{
@@ -0,0 +1,80 @@
+/**
+ * Transaction Result Parsing
+ * Turns a finalized SuiTransactionBlockResponse into the object IDs and
+ * events the UI needs, so hooks never have to re-query after executing.
+ */
+
+import type { SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { translateTransactionError } from './errors';
+
+// ==================== TYPES ====================
+
+export interface CreatedObject {
+  objectId: string;
+  objectType: string;
+}
+
+export interface ExecutedTransaction {
+  digest: string;
+  createdObjects: CreatedObject[];
+  events: SuiEvent[];
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Options passed to waitForTransaction so effects, events and object changes come back
+ */
+export const TRANSACTION_RESPONSE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+} as const;
+
+/**
+ * Extracts created objects and emitted events from a finalized transaction
+ * Throws a typed error (see errors.ts) if the transaction aborted on-chain.
+ */
+export function parseExecutedTransaction(response: SuiTransactionBlockResponse): ExecutedTransaction {
+  const status = response.effects?.status;
+  if (status?.status !== 'success') {
+    throw translateTransactionError(status?.error || `Transaction ${response.digest} failed`, response.digest);
+  }
+
+  const createdObjects: CreatedObject[] = [];
+  for (const change of response.objectChanges ?? []) {
+    if (change.type === 'created') {
+      createdObjects.push({ objectId: change.objectId, objectType: change.objectType });
+    }
+  }
+
+  return {
+    digest: response.digest,
+    createdObjects,
+    events: response.events ?? [],
+  };
+}
+
+/**
+ * Returns the parsedJson of the first event of the given type
+ * @param structName - `module::Struct`, e.g. "document_system::DocumentVoted"
+ */
+export function findEvent(result: ExecutedTransaction, structName: string): unknown {
+  const event = result.events.find((e) => e.type.endsWith(`::${structName}`));
+  if (!event) {
+    throw new Error(`Transaction ${result.digest} did not emit ${structName}`);
+  }
+  return event.parsedJson;
+}
+
+/**
+ * Returns the ID of the first created object of the given type
+ * @param structName - `module::Struct`, e.g. "document_system::StudentProfile"
+ */
+export function findCreatedObject(result: ExecutedTransaction, structName: string): string {
+  const created = result.createdObjects.find((obj) => obj.objectType.endsWith(`::${structName}`));
+  if (!created) {
+    throw new Error(`Transaction ${result.digest} did not create ${structName}`);
+  }
+  return created.objectId;
+}
@@ -0,0 +1,632 @@
+/**
+ * Walrus Storage Client
+ * Uploads go through Walrus publishers, which pay for storage on the
+ * uploader's behalf, so zkLogin users need no WAL. Publishers are probed for
+ * health and ranked by latency and success rate; an upload tries them in that
+ * order and explains every failure if none accepts the file.
+ *
+ * Publishers take a blob in a single request, so a transfer cannot resume
+ * mid-way. Instead the file is read once, in chunks, into a PreparedUpload
+ * that failover and retries reuse without touching the file again.
+ *
+ * Reads go through aggregators, falling back to the storage nodes themselves
+ * via @mysten/walrus when no aggregator can serve the blob.
+ *
+ * Blobs are stored for a number of Walrus epochs and then expire. Renewing
+ * stores the same content again for longer; since blob IDs are derived from
+ * the content, the ID (and every on-chain reference to it) stays the same.
+ */
+
+import { getFullnodeUrl } from '@mysten/sui/client';
+
+// ==================== CONFIG ====================
+
+const SUI_RPC_URL = (import.meta.env.VITE_SUI_RPC_URL as string | undefined) ?? getFullnodeUrl('testnet');
+
+// Proxied by vite.config.ts in development, since publishers do not send CORS headers
+const DEFAULT_PUBLISHERS: WalrusEndpoint[] = [
+  { name: 'walrus.space', url: '/walrus-api' },
+  { name: 'staketab.org', url: '/walrus-api-2' },
+  { name: 'nodes.guru', url: '/walrus-api-3' },
+  { name: 'graphyte.dev', url: '/walrus-api-4' },
+];
+const DEFAULT_AGGREGATORS: WalrusEndpoint[] = [
+  { name: 'walrus.space', url: 'https://aggregator.walrus-testnet.walrus.space' },
+];
+
+export const WALRUS_DEFAULT_EPOCHS = 5;
+// Walrus does not sell storage further ahead than this
+export const WALRUS_MAX_EPOCHS = 53;
+// Blobs this close to their end epoch are flagged as expiring
+export const WALRUS_EXPIRY_WARNING_EPOCHS = 2;
+
+const HEALTH_TIMEOUT_MS = 5_000;
+// Large files take long to send; only give up once the transfer stalls
+const UPLOAD_STALL_TIMEOUT_MS = 60_000;
+// Publisher encodes and certifies the blob after receiving it
+const STORE_TIMEOUT_MS = 120_000;
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+const READ_TIMEOUT_MS = 30_000;
+// Probes older than this are repeated before the next upload
+const HEALTH_TTL_MS = 5 * 60 * 1000;
+// Assumed for publishers that were never probed successfully
+const UNKNOWN_LATENCY_MS = 1_000;
+
+/**
+ * Parses a comma-separated list of endpoint URLs, as in VITE_WALRUS_PUBLISHERS
+ */
+function parseEndpoints(value: string | undefined): WalrusEndpoint[] | null {
+  const urls = (value ?? '')
+    .split(',')
+    .map((url) => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  if (urls.length === 0) return null;
+  return urls.map((url) => {
+    try {
+      return { name: new URL(url).host, url };
+    } catch {
+      return { name: url, url };
+    }
+  });
+}
+
+// ==================== TYPES ====================
+
+export interface WalrusEndpoint {
+  /** Shown in failure explanations */
+  name: string;
+  url: string;
+}
+
+export interface PublisherStats extends WalrusEndpoint {
+  /** null until the first probe */
+  healthy: boolean | null;
+  /** Smoothed probe latency */
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  lastError: string | null;
+  checkedAt: number | null;
+}
+
+export interface PublisherAttempt {
+  publisher: string;
+  reason: string;
+  status?: number;
+}
+
+export type WalrusUploadPhase = 'reading' | 'uploading' | 'storing';
+
+export interface WalrusUploadProgress {
+  phase: WalrusUploadPhase;
+  loaded: number;
+  total: number;
+  /** Publisher receiving the file, null while reading it */
+  publisher: string | null;
+}
+
+/**
+ * File contents read into memory, ready to be sent to any publisher
+ */
+export interface PreparedUpload {
+  bytes: Uint8Array<ArrayBuffer>;
+  type: string;
+  size: number;
+}
+
+export interface WalrusUploadOptions {
+  epochs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: WalrusUploadProgress) => void;
+}
+
+export interface WalrusUploadResult {
+  blobId: string;
+  /** Publisher that stored the blob */
+  publisher: string;
+  /** The same content was already stored on Walrus */
+  alreadyCertified: boolean;
+  /** Sui object of a newly created blob */
+  blobObjectId: string | null;
+  endEpoch: number | null;
+}
+
+export interface WalrusRenewOptions extends WalrusUploadOptions {
+  /** Original file, required once the blob has expired and cannot be read anymore */
+  source?: Blob | PreparedUpload;
+}
+
+export interface WalrusEpochInfo {
+  currentEpoch: number;
+  epochDurationMs: number;
+  /** Start of epoch 1 */
+  firstEpochStartMs: number;
+}
+
+export type BlobExpiryStatus = 'active' | 'expiring' | 'expired' | 'unknown';
+
+export interface BlobExpiry {
+  status: BlobExpiryStatus;
+  /** Estimated end of storage, null when the end epoch is unknown */
+  expiresAt: number | null;
+  epochsLeft: number | null;
+}
+
+export interface WalrusClientConfig {
+  publishers?: WalrusEndpoint[];
+  aggregators?: WalrusEndpoint[];
+}
+
+export interface WalrusClient {
+  getPublisherStats: () => PublisherStats[];
+  checkPublisherHealth: () => Promise<PublisherStats[]>;
+  rankPublishers: () => PublisherStats[];
+  upload: (source: Blob | PreparedUpload, options?: WalrusUploadOptions) => Promise<WalrusUploadResult>;
+  readBlob: (blobId: string, signal?: AbortSignal) => Promise<Blob>;
+  renewBlob: (blobId: string, options?: WalrusRenewOptions) => Promise<WalrusUploadResult>;
+  computeBlobId: (source: Blob | PreparedUpload, signal?: AbortSignal) => Promise<string>;
+  blobUrl: (blobId: string) => string;
+}
+
+// ==================== ERRORS ====================
+
+export class WalrusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalrusError';
+  }
+}
+
+/**
+ * Every publisher refused the upload; `attempts` says why, in the order tried
+ */
+export class WalrusUploadError extends WalrusError {
+  readonly attempts: PublisherAttempt[];
+
+  constructor(attempts: PublisherAttempt[]) {
+    const details = attempts.map((attempt) => `${attempt.publisher}: ${attempt.reason}`).join('; ');
+    super(
+      attempts.length > 0
+        ? `No Walrus publisher accepted the file (${details})`
+        : 'No Walrus publisher is configured. Please check .env file.'
+    );
+    this.name = 'WalrusUploadError';
+    this.attempts = attempts;
+  }
+}
+
+export class WalrusReadError extends WalrusError {
+  readonly blobId: string;
+
+  constructor(blobId: string, message: string) {
+    super(message);
+    this.name = 'WalrusReadError';
+    this.blobId = blobId;
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Formats a byte count for display, e.g. 12.3 MB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+function timeoutSignal(ms: number, signal?: AbortSignal): AbortSignal {
+  return signal ? AbortSignal.any([signal, AbortSignal.timeout(ms)]) : AbortSignal.timeout(ms);
+}
+
+/**
+ * Human-readable reason for a failed publisher response
+ */
+function explainStatus(status: number, body: string): string {
+  const detail = body.trim().slice(0, 200);
+  const suffix = detail ? ` (${detail})` : '';
+  if (status === 413) return `file is larger than this publisher accepts${suffix}`;
+  if (status === 429) return `rate limited, try again later${suffix}`;
+  if (status === 404 || status === 405) return `does not expose the Walrus publisher API (HTTP ${status})`;
+  if (status >= 500) return `publisher error HTTP ${status}${suffix}`;
+  return `rejected the upload with HTTP ${status}${suffix}`;
+}
+
+function explainFetchError(err: unknown, timeoutMs: number): string {
+  if (err instanceof DOMException && err.name === 'TimeoutError') {
+    return `no answer within ${Math.round(timeoutMs / 1000)}s`;
+  }
+  return `unreachable (${(err as Error).message})`;
+}
+
+type PutOutcome =
+  | { ok: true; status: number; body: string }
+  | { ok: false; reason: string; aborted?: boolean };
+
+/**
+ * PUTs the bytes with XMLHttpRequest, the only browser API reporting upload progress
+ */
+function putWithProgress(
+  url: string,
+  upload: PreparedUpload,
+  signal: AbortSignal | undefined,
+  onProgress: (loaded: number, sent: boolean) => void
+): Promise<PutOutcome> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve({ ok: false, reason: 'upload was cancelled', aborted: true });
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timeoutReason = '';
+
+    const finish = (outcome: PutOutcome) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(outcome);
+    };
+    const arm = (ms: number, reason: string) => {
+      clearTimeout(timer);
+      timeoutReason = reason;
+      timer = setTimeout(() => xhr.abort(), ms);
+    };
+    const onAbort = () => xhr.abort();
+
+    xhr.upload.onprogress = (event) => {
+      onProgress(event.loaded, false);
+      arm(UPLOAD_STALL_TIMEOUT_MS, `transfer stalled for ${UPLOAD_STALL_TIMEOUT_MS / 1000}s`);
+    };
+    xhr.upload.onload = () => {
+      onProgress(upload.size, true);
+      arm(STORE_TIMEOUT_MS, `did not store the blob within ${STORE_TIMEOUT_MS / 1000}s`);
+    };
+    xhr.onload = () => finish({ ok: true, status: xhr.status, body: xhr.responseText });
+    xhr.onerror = () => finish({ ok: false, reason: 'unreachable (network error)' });
+    xhr.onabort = () =>
+      finish(
+        signal?.aborted
+          ? { ok: false, reason: 'upload was cancelled', aborted: true }
+          : { ok: false, reason: timeoutReason }
+      );
+
+    signal?.addEventListener('abort', onAbort);
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', upload.type || 'application/octet-stream');
+    arm(UPLOAD_STALL_TIMEOUT_MS, `no answer within ${UPLOAD_STALL_TIMEOUT_MS / 1000}s`);
+    xhr.send(upload.bytes);
+  });
+}
+
+/**
+ * Reads a file into memory chunk by chunk, reporting progress
+ * Keep the result to retry an upload without reading the file again.
+ */
+export async function prepareUpload(
+  file: Blob,
+  options: Pick<WalrusUploadOptions, 'signal' | 'onProgress'> = {}
+): Promise<PreparedUpload> {
+  const bytes = new Uint8Array(file.size);
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    if (options.signal?.aborted) throw new WalrusError('Upload was cancelled');
+    const chunk = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+    bytes.set(new Uint8Array(chunk), offset);
+    options.onProgress?.({
+      phase: 'reading',
+      loaded: offset + chunk.byteLength,
+      total: file.size,
+      publisher: null,
+    });
+  }
+  return { bytes, type: file.type, size: file.size };
+}
+
+type PublisherResponse = {
+  newlyCreated?: { blobObject?: { id?: string; blobId?: string; storage?: { endEpoch?: number } } };
+  alreadyCertified?: { blobId?: string; endEpoch?: number };
+  blobId?: string;
+};
+
+function parseUploadResponse(result: PublisherResponse, publisher: string): WalrusUploadResult | null {
+  // Response structure: { newlyCreated: { blobObject: { blobId: "..." } } }
+  // or { alreadyCertified: { blobId: "..." } }
+  if (result.newlyCreated?.blobObject?.blobId) {
+    const { blobObject } = result.newlyCreated;
+    return {
+      blobId: blobObject.blobId!,
+      publisher,
+      alreadyCertified: false,
+      blobObjectId: blobObject.id ?? null,
+      endEpoch: blobObject.storage?.endEpoch ?? null,
+    };
+  }
+  if (result.alreadyCertified?.blobId) {
+    return {
+      blobId: result.alreadyCertified.blobId,
+      publisher,
+      alreadyCertified: true,
+      blobObjectId: null,
+      endEpoch: result.alreadyCertified.endEpoch ?? null,
+    };
+  }
+  if (result.blobId) {
+    return { blobId: result.blobId, publisher, alreadyCertified: false, blobObjectId: null, endEpoch: null };
+  }
+  return null;
+}
+
+/**
+ * Expected time per successful upload; lower ranks first
+ * Success rate is smoothed so one early failure does not bury a publisher.
+ */
+function publisherCost(stats: PublisherStats): number {
+  if (stats.healthy === false) return Number.POSITIVE_INFINITY;
+  const successRate = (stats.successes + 1) / (stats.successes + stats.failures + 2);
+  return (stats.latencyMs ?? UNKNOWN_LATENCY_MS) / successRate;
+}
+
+// ==================== CLIENT ====================
+
+/**
+ * Creates a Walrus client over the given publishers and aggregators
+ * Publisher stats live as long as the client does.
+ */
+export function createWalrusClient(config: WalrusClientConfig = {}): WalrusClient {
+  const publishers = config.publishers ?? DEFAULT_PUBLISHERS;
+  const aggregators = config.aggregators ?? DEFAULT_AGGREGATORS;
+  const stats = new Map<string, PublisherStats>(
+    publishers.map((publisher) => [
+      publisher.url,
+      {
+        ...publisher,
+        healthy: null,
+        latencyMs: null,
+        successes: 0,
+        failures: 0,
+        lastError: null,
+        checkedAt: null,
+      },
+    ])
+  );
+  let pendingHealthCheck: Promise<PublisherStats[]> | null = null;
+
+  const getPublisherStats = () => Array.from(stats.values(), (entry) => ({ ...entry }));
+
+  const probe = async (entry: PublisherStats) => {
+    const startedAt = performance.now();
+    try {
+      // The publisher API description is cheap and served by every publisher
+      const res = await fetch(`${entry.url}/v1/api`, { signal: timeoutSignal(HEALTH_TIMEOUT_MS) });
+      const latency = performance.now() - startedAt;
+      entry.healthy = res.status < 500;
+      entry.latencyMs = entry.latencyMs === null ? latency : entry.latencyMs * 0.7 + latency * 0.3;
+      entry.lastError = entry.healthy ? null : explainStatus(res.status, '');
+    } catch (err) {
+      entry.healthy = false;
+      entry.lastError = explainFetchError(err, HEALTH_TIMEOUT_MS);
+    }
+    entry.checkedAt = Date.now();
+  };
+
+  const checkPublisherHealth = () => {
+    pendingHealthCheck ??= Promise.all(Array.from(stats.values(), probe))
+      .then(getPublisherStats)
+      .finally(() => {
+        pendingHealthCheck = null;
+      });
+    return pendingHealthCheck;
+  };
+
+  const rankPublishers = () => getPublisherStats().sort((a, b) => publisherCost(a) - publisherCost(b));
+
+  const upload = async (
+    source: Blob | PreparedUpload,
+    options: WalrusUploadOptions = {}
+  ): Promise<WalrusUploadResult> => {
+    const epochs = options.epochs ?? WALRUS_DEFAULT_EPOCHS;
+    const prepared = source instanceof Blob ? await prepareUpload(source, options) : source;
+
+    const stale = Array.from(stats.values()).some(
+      (entry) => entry.checkedAt === null || Date.now() - entry.checkedAt > HEALTH_TTL_MS
+    );
+    if (stale) await checkPublisherHealth();
+
+    // Unhealthy publishers are still tried last: a probe can fail while uploads work
+    const attempts: PublisherAttempt[] = [];
+    for (const ranked of rankPublishers()) {
+      const entry = stats.get(ranked.url)!;
+      const fail = (reason: string, status?: number) => {
+        entry.failures += 1;
+        entry.lastError = reason;
+        attempts.push({ publisher: entry.name, reason, status });
+      };
+
+      options.onProgress?.({ phase: 'uploading', loaded: 0, total: prepared.size, publisher: entry.name });
+      const outcome = await putWithProgress(
+        `${entry.url}/v1/blobs?epochs=${epochs}`,
+        prepared,
+        options.signal,
+        (loaded, sent) =>
+          options.onProgress?.({
+            phase: sent ? 'storing' : 'uploading',
+            loaded,
+            total: prepared.size,
+            publisher: entry.name,
+          })
+      );
+
+      if (!outcome.ok) {
+        if (outcome.aborted) throw new WalrusError('Upload was cancelled');
+        fail(outcome.reason);
+        continue;
+      }
+      if (outcome.status < 200 || outcome.status >= 300) {
+        fail(explainStatus(outcome.status, outcome.body), outcome.status);
+        continue;
+      }
+
+      let response: PublisherResponse = {};
+      try {
+        response = JSON.parse(outcome.body) as PublisherResponse;
+      } catch {
+        // Reported as a missing blob ID below
+      }
+      const result = parseUploadResponse(response, entry.name);
+      if (!result) {
+        fail('answered without a blob ID');
+        continue;
+      }
+
+      entry.successes += 1;
+      entry.healthy = true;
+      entry.lastError = null;
+      return result;
+    }
+
+    throw new WalrusUploadError(attempts);
+  };
+
+  const readFromStorageNodes = async (blobId: string, signal?: AbortSignal) => {
+    const client = await loadSdkClient();
+    const bytes = await client.readBlob({ blobId, signal });
+    return new Blob([bytes as Uint8Array<ArrayBuffer>]);
+  };
+
+  const readBlob = async (blobId: string, signal?: AbortSignal): Promise<Blob> => {
+    const reasons: string[] = [];
+    for (const aggregator of aggregators) {
+      try {
+        const res = await fetch(`${aggregator.url}/v1/blobs/${encodeURIComponent(blobId)}`, {
+          signal: timeoutSignal(READ_TIMEOUT_MS, signal),
+        });
+        if (res.ok) return await res.blob();
+        // Aggregators agree on missing blobs, so there is no point asking the nodes
+        if (res.status === 404) throw new WalrusReadError(blobId, 'Blob not found on Walrus (it may have expired)');
+        reasons.push(`${aggregator.name}: HTTP ${res.status}`);
+      } catch (err) {
+        if (err instanceof WalrusReadError) throw err;
+        if (signal?.aborted) throw new WalrusError('Download was cancelled');
+        reasons.push(`${aggregator.name}: ${explainFetchError(err, READ_TIMEOUT_MS)}`);
+      }
+    }
+
+    try {
+      return await readFromStorageNodes(blobId, signal);
+    } catch (err) {
+      reasons.push(`storage nodes: ${(err as Error).message}`);
+      throw new WalrusReadError(blobId, `Blob could not be read from Walrus (${reasons.join('; ')})`);
+    }
+  };
+
+  /**
+   * Stores the blob's content again for `epochs` more epochs
+   * Reads it back from Walrus unless the original file is given.
+   */
+  const renewBlob = async (blobId: string, options: WalrusRenewOptions = {}): Promise<WalrusUploadResult> => {
+    const { source, ...uploadOptions } = options;
+    let content: Blob | PreparedUpload;
+    if (source) {
+      content = source;
+    } else {
+      try {
+        content = await readBlob(blobId, options.signal);
+      } catch (err) {
+        if (err instanceof WalrusReadError) {
+          throw new WalrusReadError(blobId, `${err.message}. Select the original file to renew it.`);
+        }
+        throw err;
+      }
+    }
+
+    const result = await upload(content, uploadOptions);
+    if (result.blobId !== blobId) {
+      throw new WalrusError('The selected file is not the original document (its Walrus blob ID differs).');
+    }
+    return result;
+  };
+
+  /**
+   * Blob ID the file will get on Walrus, computed locally from its content
+   * Lets callers detect duplicates before uploading anything.
+   */
+  const computeBlobId = async (source: Blob | PreparedUpload, signal?: AbortSignal): Promise<string> => {
+    const { bytes } = source instanceof Blob ? await prepareUpload(source, { signal }) : source;
+    const { blobId } = await (await loadSdkClient()).computeBlobMetadata({ bytes });
+    signal?.throwIfAborted();
+    return blobId;
+  };
+
+  const blobUrl = (blobId: string) => `${aggregators[0]?.url ?? DEFAULT_AGGREGATORS[0].url}/v1/blobs/${blobId}`;
+
+  return { getPublisherStats, checkPublisherHealth, rankPublishers, upload, readBlob, renewBlob, computeBlobId, blobUrl };
+}
+
+// ==================== SDK ====================
+
+type SdkClient = import('@mysten/walrus').WalrusClient;
+
+let sdkClient: Promise<SdkClient> | null = null;
+
+/**
+ * @mysten/walrus client, loaded on demand since the SDK pulls in a wasm decoder
+ */
+function loadSdkClient(): Promise<SdkClient> {
+  sdkClient ??= import('@mysten/walrus').then(
+    ({ WalrusClient }) => new WalrusClient({ network: 'testnet', suiRpcUrl: SUI_RPC_URL })
+  );
+  return sdkClient;
+}
+
+// ==================== EPOCHS ====================
+
+/**
+ * Current Walrus epoch and epoch length, read from the staking object on Sui
+ */
+export async function getWalrusEpochInfo(): Promise<WalrusEpochInfo> {
+  const state = await (await loadSdkClient()).stakingState();
+  return {
+    currentEpoch: state.epoch,
+    epochDurationMs: Number(state.epoch_duration),
+    firstEpochStartMs: Number(state.first_epoch_start),
+  };
+}
+
+/**
+ * Estimated start time of an epoch; a blob stays available until the start of its end epoch
+ */
+export function walrusEpochStart(info: WalrusEpochInfo, epoch: number): number {
+  return info.firstEpochStartMs + (epoch - 1) * info.epochDurationMs;
+}
+
+export function getBlobExpiry(endEpoch: number | null, info: WalrusEpochInfo | null): BlobExpiry {
+  if (!endEpoch || !info) return { status: 'unknown', expiresAt: null, epochsLeft: null };
+
+  const epochsLeft = endEpoch - info.currentEpoch;
+  let status: BlobExpiryStatus = 'active';
+  if (epochsLeft <= 0) status = 'expired';
+  else if (epochsLeft <= WALRUS_EXPIRY_WARNING_EPOCHS) status = 'expiring';
+
+  return { status, expiresAt: walrusEpochStart(info, endEpoch), epochsLeft };
+}
+
+// ==================== DEFAULT CLIENT ====================
+
+let defaultClient: WalrusClient | null = null;
+
+/**
+ * Client for VITE_WALRUS_PUBLISHERS / VITE_WALRUS_AGGREGATORS, shared so its stats are too
+ */
+export function getWalrusClient(): WalrusClient {
+  defaultClient ??= createWalrusClient({
+    publishers: parseEndpoints(import.meta.env.VITE_WALRUS_PUBLISHERS) ?? DEFAULT_PUBLISHERS,
+    aggregators: parseEndpoints(import.meta.env.VITE_WALRUS_AGGREGATORS) ?? DEFAULT_AGGREGATORS,
+  });
+  return defaultClient;
+}
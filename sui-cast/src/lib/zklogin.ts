@@ -0,0 +1,371 @@
+/**
+ * zkLogin Session
+ * Reads the zkLogin state saved at login (JWT, salt, ephemeral keypair,
+ * maxEpoch) and fetches the ZK proof needed to sign with it.
+ *
+ * The proof only depends on the JWT and the ephemeral key, so it is requested
+ * once per login and cached in sessionStorage. The ephemeral key is only valid
+ * up to maxEpoch; after that the user has to log in again for a new nonce.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import {
+  generateNonce,
+  generateRandomness,
+  genAddressSeed,
+  getExtendedEphemeralPublicKey,
+  jwtToAddress,
+  type ZkLoginSignatureInputs,
+} from '@mysten/sui/zklogin';
+import { jwtDecode } from 'jwt-decode';
+import { getProverClient, proofCacheKey } from './prover';
+import { getSaltProvider } from './salt';
+import { clearVault, onVaultCleared, restoreFromVault, saveToVault } from './sessionVault';
+import { buildAuthUrl, getProvider, mapClaims } from './zkloginProviders';
+import type { ZkLoginProviderId } from './zkloginProviders';
+
+// ==================== CONFIG ====================
+
+const REDIRECT_URL =
+  (import.meta.env.VITE_ZKLOGIN_REDIRECT_URL as string | undefined) ?? window.location.origin;
+
+// Epochs the ephemeral key stays valid after the current one
+const MAX_EPOCH_OFFSET = 2;
+
+// Claim the address is derived from; must match what the prover is asked for
+const KEY_CLAIM_NAME = 'sub';
+
+export const ZKLOGIN_STORAGE_KEYS = {
+  address: 'zklogin_address',
+  userInfo: 'zklogin_user_info',
+  jwt: 'sui_jwt_token',
+  salt: 'zklogin_salt',
+  ephemeral: 'zklogin_ephemeral_data',
+  // Written by beginZkLogin; replaces `ephemeral` only once the redirect completes
+  pendingEphemeral: 'zklogin_pending_ephemeral',
+  proof: 'zklogin_proof',
+} as const;
+
+// ==================== TYPES ====================
+
+/**
+ * Ephemeral data saved before redirecting to the OAuth provider
+ */
+export interface StoredZkLoginData {
+  maxEpoch: number;
+  randomness: string; // BigInt string
+  ephemeralSecretKey: string; // Bech32 secret key (suiprivkey...)
+  provider?: ZkLoginProviderId; // Missing in sessions created before multi-provider login
+}
+
+/**
+ * Proof returned by the prover; addressSeed is added when signing
+ */
+export type ZkLoginProof = Omit<ZkLoginSignatureInputs, 'addressSeed'>;
+
+export interface ZkLoginSession {
+  address: string;
+  jwt: string;
+  salt: string;
+  maxEpoch: number;
+  randomness: string;
+  ephemeralKeyPair: Ed25519Keypair;
+  addressSeed: string;
+  userInfo: ZkLoginUserInfo;
+  provider: ZkLoginProviderId;
+}
+
+export interface ZkLoginUserInfo {
+  email?: string;
+  name?: string;
+  picture?: string;
+}
+
+export interface ZkLoginExpiry {
+  maxEpoch: number;
+  currentEpoch: number;
+  /** Unix ms at which maxEpoch ends, estimated from the current epoch's duration */
+  expiresAt: number;
+}
+
+type JwtClaims = {
+  sub?: string;
+  aud?: string | string[];
+};
+
+// ==================== CHANGE NOTIFICATION ====================
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribes to login, logout and proof changes of this tab
+ */
+export function subscribeZkLoginSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyZkLoginSessionChange() {
+  listeners.forEach((listener) => listener());
+}
+
+// ==================== LOGIN ====================
+
+/**
+ * Creates a fresh ephemeral keypair and nonce, then redirects to the provider
+ * Also used to renew a session: the new JWT commits to a new maxEpoch.
+ */
+export async function beginZkLogin(client: SuiClient, providerId: ZkLoginProviderId): Promise<void> {
+  const provider = getProvider(providerId);
+
+  const { epoch } = await client.getLatestSuiSystemState();
+  const maxEpoch = Number(epoch) + MAX_EPOCH_OFFSET;
+  const ephemeralKeyPair = new Ed25519Keypair();
+  const randomness = generateRandomness();
+  const nonce = generateNonce(ephemeralKeyPair.getPublicKey(), maxEpoch, randomness);
+
+  const data: StoredZkLoginData = {
+    maxEpoch,
+    randomness: randomness.toString(),
+    ephemeralSecretKey: ephemeralKeyPair.getSecretKey(),
+    provider: provider.id,
+  };
+  // Kept aside so an abandoned renewal does not break the current session
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.pendingEphemeral, JSON.stringify(data));
+
+  window.location.href = buildAuthUrl(provider, nonce, REDIRECT_URL);
+}
+
+/**
+ * Takes the id_token out of the OAuth redirect URL, if there is one
+ * Providers return it in the fragment (#id_token=...), some setups in the query.
+ */
+export function readZkLoginCallback(): string | null {
+  const hashParams = new URLSearchParams(window.location.hash.substring(1));
+  const idToken = hashParams.get('id_token') ?? new URL(window.location.href).searchParams.get('id_token');
+  if (!idToken) return null;
+
+  // Clear URL (remove hash and query parameters)
+  window.history.replaceState({}, '', window.location.pathname);
+  return idToken;
+}
+
+/**
+ * Returns the ephemeral data beginZkLogin created for the pending redirect
+ */
+export function getPendingZkLoginData(): StoredZkLoginData | null {
+  const pending = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.pendingEphemeral);
+  return pending ? (JSON.parse(pending) as StoredZkLoginData) : null;
+}
+
+/**
+ * Saves the result of an OAuth redirect as the session of this tab
+ * Promotes the pending ephemeral data of beginZkLogin to the active one.
+ */
+export function completeZkLogin(login: {
+  address: string;
+  jwt: string;
+  salt: string;
+  userInfo: ZkLoginUserInfo;
+}) {
+  const pending = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.pendingEphemeral);
+  if (pending) {
+    sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.ephemeral, pending);
+    sessionStorage.removeItem(ZKLOGIN_STORAGE_KEYS.pendingEphemeral);
+  }
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.address, login.address);
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.jwt, login.jwt);
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.salt, login.salt);
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.userInfo, JSON.stringify(login.userInfo));
+  // A proof of the previous login is bound to the old ephemeral key
+  sessionStorage.removeItem(ZKLOGIN_STORAGE_KEYS.proof);
+
+  notifyZkLoginSessionChange();
+  void saveToVault(Object.values(ZKLOGIN_STORAGE_KEYS));
+}
+
+/**
+ * Removes the zkLogin session from this tab and from the persisted vault
+ */
+export function clearZkLoginSession() {
+  Object.values(ZKLOGIN_STORAGE_KEYS).forEach((key) => sessionStorage.removeItem(key));
+  clearVault();
+  notifyZkLoginSessionChange();
+}
+
+/**
+ * Turns the id_token of a redirect into the session of this tab
+ * Fetches the salt, derives the address and maps the provider's claims.
+ */
+export async function finishZkLogin(jwt: string): Promise<{ address: string; userInfo: ZkLoginUserInfo }> {
+  const pending = getPendingZkLoginData();
+  if (!pending) {
+    throw new Error('Ephemeral key not found. Please log in again.');
+  }
+
+  const claims = jwtDecode<Record<string, unknown>>(jwt);
+  const salt = await getSaltProvider().getSalt(jwt);
+  const address = jwtToAddress(jwt, salt);
+  const userInfo = mapClaims(getProvider(pending.provider ?? 'google'), claims);
+
+  completeZkLogin({ address, jwt, salt, userInfo });
+  return { address, userInfo };
+}
+
+// ==================== PERSISTENCE ====================
+
+/**
+ * Loads the persisted session into a tab that has none (e.g. a new tab)
+ * Call before the first render so route guards already see the session.
+ */
+export async function restoreZkLoginSession(): Promise<void> {
+  if (sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.address)) return;
+  if (await restoreFromVault()) notifyZkLoginSessionChange();
+}
+
+/**
+ * Logs this tab out when another tab clears the persisted session
+ */
+export function followZkLoginLogout(onLogout: () => void): () => void {
+  return onVaultCleared(() => {
+    Object.values(ZKLOGIN_STORAGE_KEYS).forEach((key) => sessionStorage.removeItem(key));
+    notifyZkLoginSessionChange();
+    onLogout();
+  });
+}
+
+// ==================== SESSION ====================
+
+/**
+ * Rebuilds the zkLogin session of this tab
+ * Returns null if the user did not log in with zkLogin or the data is incomplete.
+ */
+export function loadZkLoginSession(): ZkLoginSession | null {
+  const address = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.address);
+  const jwt = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.jwt);
+  const salt = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.salt);
+  const ephemeral = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.ephemeral);
+  if (!address || !jwt || !salt || !ephemeral) return null;
+
+  try {
+    const data = JSON.parse(ephemeral) as StoredZkLoginData;
+    const userInfo = JSON.parse(
+      sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.userInfo) ?? '{}'
+    ) as ZkLoginUserInfo;
+    const claims = jwtDecode<JwtClaims>(jwt);
+    const aud = Array.isArray(claims.aud) ? claims.aud[0] : claims.aud;
+    if (!claims.sub || !aud) return null;
+
+    return {
+      address,
+      jwt,
+      salt,
+      maxEpoch: data.maxEpoch,
+      randomness: data.randomness,
+      ephemeralKeyPair: Ed25519Keypair.fromSecretKey(data.ephemeralSecretKey),
+      addressSeed: genAddressSeed(BigInt(salt), KEY_CLAIM_NAME, claims.sub, aud).toString(),
+      userInfo,
+      provider: data.provider ?? 'google',
+    };
+  } catch (err) {
+    console.error('zkLogin session could not be restored:', err);
+    return null;
+  }
+}
+
+// ==================== PROOF ====================
+
+/**
+ * Request for the ZK prover: the JWT and extended ephemeral public key
+ */
+function buildProverRequest(opts: {
+  jwt: string;
+  salt: string;
+  maxEpoch: number;
+  randomness: string;
+  ephemeralSecretKey: string;
+}) {
+  const keypair = Ed25519Keypair.fromSecretKey(opts.ephemeralSecretKey);
+
+  const extendedEphemeralPublicKey = getExtendedEphemeralPublicKey(
+    keypair.getPublicKey(),
+  );
+
+  return {
+    jwt: opts.jwt,
+    extendedEphemeralPublicKey: extendedEphemeralPublicKey.toString(),
+    maxEpoch: opts.maxEpoch.toString(),
+    jwtRandomness: opts.randomness,
+    salt: opts.salt,
+    keyClaimName: KEY_CLAIM_NAME,
+  };
+}
+
+/**
+ * Sends the JWT and ephemeral public key to the ZK prover
+ * Timeouts, retries and in-memory caching are handled by lib/prover.ts.
+ */
+export async function requestZkProof(opts: {
+  jwt: string;
+  salt: string;
+  maxEpoch: number;
+  randomness: string;
+  ephemeralSecretKey: string;
+}): Promise<ZkLoginProof> {
+  return getProverClient().getProof(buildProverRequest(opts));
+}
+
+/**
+ * Caches a proof for the JWT and ephemeral key it was generated for
+ */
+function storeZkLoginProof(key: string, proof: ZkLoginProof) {
+  sessionStorage.setItem(ZKLOGIN_STORAGE_KEYS.proof, JSON.stringify({ key, proof }));
+  notifyZkLoginSessionChange();
+  void saveToVault(Object.values(ZKLOGIN_STORAGE_KEYS));
+}
+
+/**
+ * Returns the cached proof of the session, requesting it from the prover if needed
+ */
+export async function getZkLoginProof(session: ZkLoginSession): Promise<ZkLoginProof> {
+  const request = buildProverRequest({
+    jwt: session.jwt,
+    salt: session.salt,
+    maxEpoch: session.maxEpoch,
+    randomness: session.randomness,
+    ephemeralSecretKey: session.ephemeralKeyPair.getSecretKey(),
+  });
+  const key = proofCacheKey(request);
+
+  const cached = sessionStorage.getItem(ZKLOGIN_STORAGE_KEYS.proof);
+  if (cached) {
+    const stored = JSON.parse(cached) as { key?: string; proof: ZkLoginProof };
+    if (stored.key === key) return stored.proof;
+  }
+
+  const proof = await getProverClient().getProof(request);
+  storeZkLoginProof(key, proof);
+  return proof;
+}
+
+// ==================== EXPIRY ====================
+
+/**
+ * Estimates when the ephemeral key of `maxEpoch` stops being accepted
+ * The key signs through the end of maxEpoch, so expiry is the start of maxEpoch + 1.
+ */
+export async function getZkLoginExpiry(client: SuiClient, maxEpoch: number): Promise<ZkLoginExpiry> {
+  const state = await client.getLatestSuiSystemState();
+  const currentEpoch = Number(state.epoch);
+  const epochStart = Number(state.epochStartTimestampMs);
+  const epochDuration = Number(state.epochDurationMs);
+
+  return {
+    maxEpoch,
+    currentEpoch,
+    expiresAt: epochStart + (maxEpoch - currentEpoch + 1) * epochDuration,
+  };
+}
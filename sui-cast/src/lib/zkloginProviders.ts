@@ -0,0 +1,145 @@
+/**
+ * zkLogin OAuth Providers
+ * Registry of the OpenID providers the login page offers. Each entry carries
+ * its client ID, authorization URL and how its id_token claims map to the
+ * display info shown in the app.
+ *
+ * A provider only appears when its client ID is configured. Its issuer must
+ * also be one Sui accepts for zkLogin, otherwise signatures are rejected.
+ */
+
+// ==================== TYPES ====================
+
+export type ZkLoginProviderId = 'google' | 'facebook' | 'twitch' | 'microsoft' | 'oidc';
+
+/**
+ * id_token claim names read for the display info
+ */
+export interface ZkLoginClaimMapping {
+  name: string;
+  email?: string;
+  picture?: string;
+}
+
+export interface ZkLoginProvider {
+  id: ZkLoginProviderId;
+  /** Label of the login button */
+  name: string;
+  clientId: string | undefined;
+  authUrl: string;
+  scope: string;
+  claims: ZkLoginClaimMapping;
+  /** Extra query parameters of the authorization request */
+  extraParams?: Record<string, string>;
+}
+
+// ==================== REGISTRY ====================
+
+const env = import.meta.env;
+
+const PROVIDERS: ZkLoginProvider[] = [
+  {
+    id: 'google',
+    name: 'Google',
+    clientId: env.VITE_GOOGLE_CLIENT_ID,
+    authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    scope: 'openid email profile',
+    claims: { name: 'name', email: 'email', picture: 'picture' },
+  },
+  {
+    id: 'facebook',
+    name: 'Facebook',
+    clientId: env.VITE_FACEBOOK_CLIENT_ID,
+    authUrl: 'https://www.facebook.com/v19.0/dialog/oauth',
+    scope: 'openid email',
+    claims: { name: 'name', email: 'email', picture: 'picture' },
+  },
+  {
+    id: 'twitch',
+    name: 'Twitch',
+    clientId: env.VITE_TWITCH_CLIENT_ID,
+    authUrl: 'https://id.twitch.tv/oauth2/authorize',
+    scope: 'openid user:read:email',
+    claims: { name: 'preferred_username', email: 'email', picture: 'picture' },
+    // Twitch only puts these claims in the id_token when asked for them
+    extraParams: {
+      claims: JSON.stringify({ id_token: { email: null, picture: null, preferred_username: null } }),
+    },
+  },
+  {
+    id: 'microsoft',
+    name: 'Microsoft',
+    clientId: env.VITE_MICROSOFT_CLIENT_ID,
+    authUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+    scope: 'openid email profile',
+    claims: { name: 'name', email: 'email' },
+  },
+  {
+    // School SSO such as 42 intra, or any OIDC provider issuing id_tokens
+    id: 'oidc',
+    name: env.VITE_OIDC_PROVIDER_NAME || 'School SSO',
+    clientId: env.VITE_OIDC_CLIENT_ID,
+    authUrl: env.VITE_OIDC_AUTH_URL ?? '',
+    scope: env.VITE_OIDC_SCOPE || 'openid email profile',
+    claims: {
+      name: env.VITE_OIDC_NAME_CLAIM || 'name',
+      email: env.VITE_OIDC_EMAIL_CLAIM || 'email',
+      picture: env.VITE_OIDC_PICTURE_CLAIM || 'picture',
+    },
+  },
+];
+
+/**
+ * Providers with a client ID (and auth URL) configured, in display order
+ */
+export function getConfiguredProviders(): ZkLoginProvider[] {
+  return PROVIDERS.filter((provider) => !!provider.clientId && !!provider.authUrl);
+}
+
+/**
+ * Looks up a configured provider
+ * Throws if it is unknown or has no client ID, so a misconfiguration is explicit.
+ */
+export function getProvider(id: ZkLoginProviderId): ZkLoginProvider {
+  const provider = PROVIDERS.find((p) => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown zkLogin provider: ${id}`);
+  }
+  if (!provider.clientId || !provider.authUrl) {
+    throw new Error(`${provider.name} login is not configured. Please check .env file.`);
+  }
+  return provider;
+}
+
+/**
+ * Builds the authorization URL requesting an id_token bound to `nonce`
+ */
+export function buildAuthUrl(provider: ZkLoginProvider, nonce: string, redirectUrl: string): string {
+  const params = new URLSearchParams({
+    client_id: provider.clientId ?? '',
+    redirect_uri: redirectUrl,
+    response_type: 'id_token',
+    scope: provider.scope,
+    nonce,
+    ...provider.extraParams,
+  });
+  return `${provider.authUrl}?${params.toString()}`;
+}
+
+/**
+ * Reads the display info out of decoded id_token claims
+ */
+export function mapClaims(
+  provider: ZkLoginProvider,
+  claims: Record<string, unknown>
+): { name?: string; email?: string; picture?: string } {
+  const read = (claim: string | undefined) => {
+    const value = claim ? claims[claim] : undefined;
+    return typeof value === 'string' ? value : undefined;
+  };
+  return {
+    name: read(provider.claims.name),
+    email: read(provider.claims.email),
+    picture: read(provider.claims.picture),
+  };
+}
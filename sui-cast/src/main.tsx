@@ -17,6 +17,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 
 import App from './App';
 import { darkTheme } from './theme';
+import { restoreZkLoginSession } from './lib/zklogin';
 
 const { networkConfig } = createNetworkConfig({
   devnet: { url: getFullnodeUrl('devnet') },
@@ -29,27 +30,32 @@ const queryClient = new QueryClient();
 // If user has not manually logged out, autoConnect should be active
 const shouldAutoConnect = localStorage.getItem('wallet_logged_out') !== 'true';
 
-ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
-        <WalletProvider
-          autoConnect={shouldAutoConnect}
-          theme={[
-            // Default: light (if 'dark' class is not present in html/body)
-            { variables: lightTheme },
-            // If html/body has '.dark' class: darkTheme
-            {
-              selector: '.dark',
-              variables: darkTheme,
-            },
-          ]}
-        >
-          <BrowserRouter>
-            <App />
-          </BrowserRouter>
-        </WalletProvider>
-      </SuiClientProvider>
-    </QueryClientProvider>
-  </React.StrictMode>,
-);
+function render() {
+  ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+          <WalletProvider
+            autoConnect={shouldAutoConnect}
+            theme={[
+              // Default: light (if 'dark' class is not present in html/body)
+              { variables: lightTheme },
+              // If html/body has '.dark' class: darkTheme
+              {
+                selector: '.dark',
+                variables: darkTheme,
+              },
+            ]}
+          >
+            <BrowserRouter>
+              <App />
+            </BrowserRouter>
+          </WalletProvider>
+        </SuiClientProvider>
+      </QueryClientProvider>
+    </React.StrictMode>,
+  );
+}
+
+// A persisted zkLogin session must be in sessionStorage before route guards run
+restoreZkLoginSession().finally(render);
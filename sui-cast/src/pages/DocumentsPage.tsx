@@ -1,17 +1,60 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useToast } from '../components/Toast';
-import { Search, Upload, FileText, Heart, Trophy, Medal, Award, Moon, Sun, User, X, ExternalLink, Loader2, LogOut, CloudUpload, CheckCircle, AlertCircle, Radio, Bell, BellRing } from 'lucide-react';
-import { useCurrentAccount, useDisconnectWallet } from '@mysten/dapp-kit';
+import { Search, Upload, FileText, Heart, Trophy, Medal, Award, Moon, Sun, User, X, Loader2, LogOut, CloudUpload, CheckCircle, AlertCircle, Radio, Bell, BellRing, RotateCcw, Clock, Lock, FolderOpen } from 'lucide-react';
 import {
   useCreateStudentProfile,
   useUploadDocument,
+  useExtendDocumentStorage,
   useVoteDocument,
+  useUploadDocumentPreflight,
+  useVoteDocumentPreflight,
   useStudentProfile,
   useLibraryStats,
   useDocuments,
+  useWalrusEpoch,
+  useFindDocumentByBlobId,
+  useEncryptDocumentFile,
+  useReadDocumentFile,
+  useSetDocumentAccess,
+  useReportDocument,
 } from '../lib/hooks';
+import { DOCUMENT_CATEGORIES, REPORT_REASONS, REPORT_REASON_LABELS } from '../lib/contracts';
+import type { ReportReason, DocumentEncryption, DocumentFileInfo, DocumentRevision, Document as LibraryDocument } from '../lib/contracts';
+import { createEncryptionId, DocumentDecryptionError, parseAccessList, type EncryptedDocumentSource } from '../lib/seal';
+import { getFileInfo, saveDocumentFile, BUNDLE_MIME_TYPE, DEFAULT_MIME_TYPE } from '../lib/files';
+import {
+  BundleError,
+  bundleName,
+  collectBundleFiles,
+  isBundle,
+  readBundleManifest,
+  saveBundleZip,
+  uploadBundle,
+  type BundleFile,
+  type BundleUploadProgress,
+  type UploadedBundleFile,
+} from '../lib/bundles';
+import { FileTypeIcon } from '../components/FileTypeIcon';
+import { DocumentViewer } from '../components/DocumentViewer';
+import { BundleViewer } from '../components/BundleViewer';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { DocumentOwnerControls } from '../components/DocumentOwnerControls';
+import { ContractError } from '../lib/errors';
+import { formatSui, InsufficientGasError } from '../lib/preflight';
+import { useAuth } from '../lib/auth';
+import {
+  formatBytes,
+  getBlobExpiry,
+  getWalrusClient,
+  prepareUpload,
+  WALRUS_DEFAULT_EPOCHS,
+  WALRUS_MAX_EPOCHS,
+  WalrusError,
+  type PreparedUpload,
+  type WalrusUploadProgress,
+} from '../lib/walrus';
 import {
   useDocumentEventStream,
   isSurfluxConfigured,
@@ -28,6 +71,22 @@ interface Document {
   blobId: string;
   description: string;
   category?: string;
+  votedByMe?: boolean;
+  uploader?: string;
+  // Walrus epoch the file expires at, null if unknown
+  endEpoch?: number | null;
+  // Original file, null for documents uploaded without file metadata
+  fileName?: string | null;
+  mimeType?: string | null;
+  fileSize?: number | null;
+  // Seal identity of an encrypted file and who may decrypt it
+  encryptionId?: string | null;
+  allowedReaders?: string[];
+  allowedGroups?: string[];
+  // Earlier files of the document, oldest first
+  revisionNote?: string;
+  revisionTimestamp?: number;
+  revisions?: DocumentRevision[];
 }
 
 interface LeaderboardUser {
@@ -36,6 +95,9 @@ interface LeaderboardUser {
   points: number;
 }
 
+// Storage durations offered on upload and renewal, in Walrus epochs
+const STORAGE_EPOCH_OPTIONS = [1, WALRUS_DEFAULT_EPOCHS, 10, 26, WALRUS_MAX_EPOCHS];
+
 type DocumentsPageProps = {
   theme: 'light' | 'dark';
   setTheme: (theme: 'light' | 'dark') => void;
@@ -44,17 +106,24 @@ type DocumentsPageProps = {
 function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
   const { showToast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
+  const [openedDoc, setSelectedDoc] = useState<Document | null>(null);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploadForm, setUploadForm] = useState({
     title: '',
     description: '',
     walrusBlobId: '',
+    walrusEndEpoch: 0,
+    file: null as DocumentFileInfo | null,
+    encryptionId: '',
     category: '',
   });
+  // Encrypted upload: only the listed addresses and group members can decrypt
+  const [encryptUpload, setEncryptUpload] = useState(false);
+  const [accessInput, setAccessInput] = useState({ readers: '', groups: '' });
   // Report popup state
   const [showReportModal, setShowReportModal] = useState(false);
-  const [reportBlobId, setReportBlobId] = useState("");
+  const [reportReason, setReportReason] = useState<ReportReason | ''>('');
+  const [reportDetails, setReportDetails] = useState('');
   const [reportTargetId, setReportTargetId] = useState("");
   
   // Surflux Real-time Stream State
@@ -67,50 +136,54 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
   // Walrus upload state
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [walrusUploading, setWalrusUploading] = useState(false);
-  const [walrusUploadStatus, setWalrusUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
+  const [walrusUploadStatus, setWalrusUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error' | 'duplicate'>('idle');
   const [walrusError, setWalrusError] = useState<string | null>(null);
+  const [walrusProgress, setWalrusProgress] = useState<WalrusUploadProgress | BundleUploadProgress | null>(null);
+  // File contents kept after the first read, so a retry does not read the file again
+  const [preparedUpload, setPreparedUpload] = useState<PreparedUpload | null>(null);
+  // Several files or a folder, uploaded as a bundle; stored files are skipped on retry
+  const [selectedBundle, setSelectedBundle] = useState<BundleFile[] | null>(null);
+  const [uploadedBundleFiles, setUploadedBundleFiles] = useState<UploadedBundleFile[]>([]);
+  // Zip of the opened bundle being put together
+  const [zippingBundle, setZippingBundle] = useState(false);
+  const walrusAbortRef = useRef<AbortController | null>(null);
+  // Existing document with the same content as the selected file
+  const [checkingDuplicate, setCheckingDuplicate] = useState(false);
+  const [encrypting, setEncrypting] = useState(false);
+  const [duplicateDoc, setDuplicateDoc] = useState<LibraryDocument | null>(null);
+  const [storageEpochs, setStorageEpochs] = useState(WALRUS_DEFAULT_EPOCHS);
+  // Storage renewal of the opened document
+  const [renewEpochs, setRenewEpochs] = useState(WALRUS_DEFAULT_EPOCHS);
+  const [renewProgress, setRenewProgress] = useState<WalrusUploadProgress | null>(null);
+  // Access of the opened encrypted document, null while not editing
+  const [accessEdit, setAccessEdit] = useState<{ readers: string; groups: string } | null>(null);
   
   const isDark = theme === 'dark';
 
-  // Sui Hooks - Wallet connection
-  const account = useCurrentAccount();
-  const walletAddress = account?.address;
-  
-  // Get zkLogin address from sessionStorage
-  const [zkLoginAddress, setZkLoginAddress] = useState<string | null>(null);
-  const [zkLoginUserInfo, setZkLoginUserInfo] = useState<{
-    email?: string;
-    name?: string;
-    picture?: string;
-  } | null>(null);
-  
-  // Active address: wallet first, then zkLogin
-  const address = walletAddress || zkLoginAddress;
-  
-  // Load zkLogin info
-  useEffect(() => {
-    const storedAddress = sessionStorage.getItem('zklogin_address');
-    const storedUserInfo = sessionStorage.getItem('zklogin_user_info');
-    
-    if (storedAddress) {
-      setZkLoginAddress(storedAddress);
-    }
-    if (storedUserInfo) {
-      try {
-        setZkLoginUserInfo(JSON.parse(storedUserInfo));
-      } catch (e) {
-        console.error('zkLogin user info parse error:', e);
-      }
-    }
-  }, []);
+  // Active identity: wallet first, then zkLogin
+  const { address, kind, displayInfo, logout } = useAuth();
 
   const { execute: createProfile, isPending: isCreatingProfile } = useCreateStudentProfile();
   const { execute: uploadDoc, isPending: isUploading } = useUploadDocument();
-  const { execute: vote, isPending: isVoting } = useVoteDocument();
-
-  const { profile, loading: profileLoading, refetch: refetchProfile } = useStudentProfile(address || undefined);
-  const { stats, refetch: refetchStats } = useLibraryStats();
-  const { documents: blockchainDocs, loading: docsLoading, refetch: refetchDocuments } = useDocuments();
+  const { execute: vote, isVotePending } = useVoteDocument();
+  const { execute: extendStorage, isPending: isExtending } = useExtendDocumentStorage();
+  const { execute: reportDocument, isPending: isReporting } = useReportDocument();
+  const { epochInfo } = useWalrusEpoch();
+  const findDocumentByBlobId = useFindDocumentByBlobId();
+  const encryptDocumentFile = useEncryptDocumentFile();
+  const readDocumentFile = useReadDocumentFile();
+  const { execute: setDocumentAccess, isPending: isSettingAccess } = useSetDocumentAccess();
+
+  const { profile, loading: profileLoading } = useStudentProfile(address || undefined);
+  const { stats } = useLibraryStats();
+  const {
+    documents: blockchainDocs,
+    loading: docsLoading,
+    loadingMore: docsLoadingMore,
+    hasMore: hasMoreDocs,
+    loadMore: loadMoreDocuments,
+    refetch: refetchDocuments,
+  } = useDocuments();
   
   // ==================== SURFLUX REAL-TIME STREAM ====================
   
@@ -151,125 +224,220 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
     enabled: realtimeEnabled && isSurfluxConfigured(),
   });
 
-  // Fetch data on initial load
-  useEffect(() => {
-    if (address) {
-      refetchProfile();
-    }
-    refetchStats();
-    refetchDocuments();
-  }, [address]);
-
   const navigate = useNavigate();
-  const { mutate: disconnectWallet } = useDisconnectWallet();
-
-  // Logout
-  const handleLogout = () => {
-    // Disconnect if wallet is connected
-    if (walletAddress) {
-      disconnectWallet();
-    }
-    // Set logout flag (prevent autoConnect on page refresh)
-    localStorage.setItem('wallet_logged_out', 'true');
-    // Clear zkLogin data
-    sessionStorage.removeItem('zklogin_address');
-    sessionStorage.removeItem('zklogin_user_info');
-    sessionStorage.removeItem('zklogin_ephemeral_data');
-    sessionStorage.removeItem('sui_jwt_token');
-    // Clear states
-    setZkLoginAddress(null);
-    setZkLoginUserInfo(null);
-    // Redirect to home page
-    navigate('/');
-  };
 
   // Create profile
   const handleCreateProfile = async () => {
     try {
       await createProfile();
-      setTimeout(() => refetchProfile(), 2000);
+      showToast('Profile created!', 'success');
     } catch (error) {
       console.error('Profile creation error:', error);
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
+      }
     }
   };
 
   // Upload file to Walrus
-  const uploadToWalrus = async (file: File): Promise<string> => {
+  // A File is read (and encrypted if requested) first; a PreparedUpload is sent as is
+  const uploadToWalrus = async (source: File | PreparedUpload, encrypt = encryptUpload): Promise<string> => {
+    const controller = new AbortController();
+    walrusAbortRef.current = controller;
     setWalrusUploading(true);
     setWalrusUploadStatus('uploading');
     setWalrusError(null);
+    setWalrusProgress(null);
+    setDuplicateDoc(null);
 
-    // Try multiple proxy endpoints (different Walrus publishers)
-    const PROXY_ENDPOINTS = [
-      '/walrus-api',    // https://publisher.walrus-testnet.walrus.space
-      '/walrus-api-2',  // https://wal-publisher-testnet.staketab.org
-      '/walrus-api-3',  // https://walrus-testnet-publisher.nodes.guru
-      '/walrus-api-4',  // https://testnet-publisher.walrus.graphyte.dev
-    ];
+    // Lookup failures only cost the duplicate check, never the upload
+    const lookupDuplicate = (blobId: string) =>
+      findDocumentByBlobId(blobId).catch((err) => {
+        console.warn('Duplicate check failed:', err);
+        return null;
+      });
 
-
-
-    let lastError: Error | null = null;
-
-    for (const proxyEndpoint of PROXY_ENDPOINTS) {
-      try {
-        
-        const response = await fetch(`${proxyEndpoint}/v1/blobs?epochs=5`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': file.type || 'application/octet-stream',
-          },
-          body: file,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.warn(`${proxyEndpoint} failed: ${response.status} - ${errorText}`);
-          lastError = new Error(`HTTP ${response.status}: ${errorText}`);
-          continue;
+    // Publishers are tried by health, latency and success rate (lib/walrus.ts)
+    try {
+      let prepared =
+        source instanceof File
+          ? await prepareUpload(source, { signal: controller.signal, onProgress: setWalrusProgress })
+          : source;
+
+      // Walrus only receives the ciphertext; the identity is recorded with the document
+      if (source instanceof File && encrypt) {
+        if (!address) throw new Error('Log in to upload encrypted documents.');
+        setEncrypting(true);
+        try {
+          const { encryptionId, bytes } = await encryptDocumentFile(address, prepared.bytes);
+          prepared = { bytes: bytes as Uint8Array<ArrayBuffer>, type: DEFAULT_MIME_TYPE, size: bytes.length };
+          setUploadForm(prev => ({ ...prev, encryptionId }));
+        } finally {
+          setEncrypting(false);
         }
-
-        const result = await response.json();
-        
-        // Response structure: { newlyCreated: { blobObject: { blobId: "..." } } } 
-        // or { alreadyCertified: { blobId: "..." } }
-        const blobId = result.newlyCreated?.blobObject?.blobId || 
-                       result.alreadyCertified?.blobId ||
-                       result.blobId;
-        
-        
-        if (!blobId) {
-          console.warn('Blob ID not found:', result);
-          lastError = new Error('Blob ID could not be retrieved');
-          continue;
+        controller.signal.throwIfAborted();
+      }
+      setPreparedUpload(prepared);
+      const encrypted = source instanceof File ? encrypt : !!uploadForm.encryptionId;
+
+      // Blob IDs are derived from the content, so the library can be checked before publishing
+      // Ciphertexts are unique, so encrypted uploads never match an existing document
+      let localBlobId: string | null = null;
+      if (!encrypted) {
+        setCheckingDuplicate(true);
+        try {
+          localBlobId = await getWalrusClient().computeBlobId(prepared, controller.signal);
+        } catch (err) {
+          if (controller.signal.aborted) throw err;
+          console.warn('Could not compute the blob ID locally:', err);
+        } finally {
+          setCheckingDuplicate(false);
         }
+      }
+      const existing = localBlobId ? await lookupDuplicate(localBlobId) : null;
+      if (existing) {
+        setDuplicateDoc(existing);
+        setWalrusUploadStatus('duplicate');
+        return existing.walrusBlobId;
+      }
 
-        // Success! Update states
-        setWalrusUploading(false);
-        setWalrusUploadStatus('success');
-        setUploadForm(prev => ({ ...prev, walrusBlobId: blobId }));
+      const { blobId, endEpoch, alreadyCertified } = await getWalrusClient().upload(prepared, {
+        epochs: storageEpochs,
+        signal: controller.signal,
+        onProgress: setWalrusProgress,
+      });
+
+      // Walrus already had this content; without a local blob ID the library was not checked yet
+      const original = alreadyCertified && !localBlobId && !encrypted ? await lookupDuplicate(blobId) : null;
+      if (original) {
+        setDuplicateDoc(original);
+        setWalrusUploadStatus('duplicate');
         return blobId;
-      } catch (err) {
-        console.warn(`${proxyEndpoint} error:`, err);
-        lastError = err instanceof Error ? err : new Error(String(err));
-        continue;
       }
+
+      // Success! Update states
+      setWalrusUploadStatus('success');
+      // 0 = end epoch unknown (the publisher did not report it)
+      setUploadForm(prev => ({ ...prev, walrusBlobId: blobId, walrusEndEpoch: endEpoch ?? 0 }));
+      return blobId;
+    } catch (err) {
+      // WalrusUploadError explains why each publisher failed
+      console.error('Walrus upload error:', err);
+      setWalrusUploadStatus('error');
+      setWalrusError((err as Error).message);
+      throw err;
+    } finally {
+      walrusAbortRef.current = null;
+      setWalrusUploading(false);
+      setWalrusProgress(null);
     }
+  };
+
+  // Upload every file of a bundle, then the manifest the document will point to
+  // Encrypted bundles use one Seal identity for all their files
+  const uploadBundleToWalrus = async (
+    files: BundleFile[],
+    encrypt = encryptUpload,
+    completed = uploadedBundleFiles
+  ): Promise<string> => {
+    const controller = new AbortController();
+    walrusAbortRef.current = controller;
+    setWalrusUploading(true);
+    setWalrusUploadStatus('uploading');
+    setWalrusError(null);
+    setWalrusProgress(null);
+    setDuplicateDoc(null);
 
-    // If all endpoints failed
-    console.error('Walrus upload error - all publishers failed:', lastError);
-    setWalrusUploading(false);
-    setWalrusUploadStatus('error');
-    setWalrusError(lastError?.message || 'All Walrus publishers failed');
-    throw lastError || new Error('Walrus upload failed');
+    try {
+      if (encrypt && !address) throw new Error('Log in to upload encrypted documents.');
+      // A retry keeps the identity its stored files were encrypted under
+      const encryptionId = !encrypt
+        ? ''
+        : completed.length > 0 && uploadForm.encryptionId
+        ? uploadForm.encryptionId
+        : createEncryptionId(address!);
+      setUploadForm(prev => ({ ...prev, encryptionId }));
+
+      const { blobId, endEpoch, totalSize } = await uploadBundle(files, {
+        epochs: storageEpochs,
+        signal: controller.signal,
+        completed,
+        transform: encrypt
+          ? async (bytes) => (await encryptDocumentFile(address!, bytes, encryptionId)).bytes
+          : undefined,
+        onProgress: setWalrusProgress,
+        onFileUploaded: (uploaded) => setUploadedBundleFiles(prev => [...prev, uploaded]),
+      });
+
+      setWalrusUploadStatus('success');
+      setUploadForm(prev => ({
+        ...prev,
+        walrusBlobId: blobId,
+        walrusEndEpoch: endEpoch ?? 0,
+        file: { fileName: bundleName(files), mimeType: BUNDLE_MIME_TYPE, fileSize: totalSize },
+      }));
+      return blobId;
+    } catch (err) {
+      console.error('Walrus bundle upload error:', err);
+      setWalrusUploadStatus('error');
+      setWalrusError((err as Error).message);
+      throw err;
+    } finally {
+      walrusAbortRef.current = null;
+      setWalrusUploading(false);
+      setWalrusProgress(null);
+    }
+  };
+
+  const cancelWalrusUpload = () => {
+    walrusAbortRef.current?.abort();
+  };
+
+  const retryWalrusUpload = async () => {
+    try {
+      if (selectedBundle) {
+        await uploadBundleToWalrus(selectedBundle);
+        return;
+      }
+      const source = preparedUpload ?? selectedFile;
+      if (source) await uploadToWalrus(source);
+    } catch {
+      // Error is already in state
+    }
   };
 
-  // When file is selected
+  // When files are selected: one file is uploaded as is, several files or a folder as a bundle
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setPreparedUpload(null);
+    setUploadedBundleFiles([]);
+    setUploadForm(prev => ({ ...prev, walrusBlobId: '', walrusEndEpoch: 0, encryptionId: '', file: null }));
 
+    if (files.length > 1 || files[0].webkitRelativePath) {
+      let bundle: BundleFile[];
+      try {
+        bundle = collectBundleFiles(files);
+      } catch (err) {
+        if (err instanceof BundleError) showToast(err.message, 'warning');
+        return;
+      }
+      setSelectedFile(null);
+      setSelectedBundle(bundle);
+      try {
+        await uploadBundleToWalrus(bundle, encryptUpload, []);
+      } catch {
+        // Error is already in state
+      }
+      return;
+    }
+
+    const [file] = files;
     setSelectedFile(file);
+    setSelectedBundle(null);
+    setUploadForm(prev => ({ ...prev, file: getFileInfo(file) }));
     
     // Automatically upload to Walrus
     try {
@@ -279,6 +447,29 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
     }
   };
 
+  // Switching encryption on or off uploads the selected file again in the new form
+  const handleEncryptToggle = async (encrypt: boolean) => {
+    setEncryptUpload(encrypt);
+    if (!selectedFile && !selectedBundle) return;
+
+    setPreparedUpload(null);
+    setUploadedBundleFiles([]);
+    setUploadForm(prev => ({ ...prev, walrusBlobId: '', walrusEndEpoch: 0, encryptionId: '' }));
+    try {
+      if (selectedBundle) await uploadBundleToWalrus(selectedBundle, encrypt, []);
+      else await uploadToWalrus(selectedFile!, encrypt);
+    } catch {
+      // Error is already in state
+    }
+  };
+
+  // Readers and groups typed into the upload form
+  const uploadReaders = parseAccessList(accessInput.readers);
+  const uploadGroups = parseAccessList(accessInput.groups);
+  const uploadEncryption: DocumentEncryption | null = uploadForm.encryptionId
+    ? { encryptionId: uploadForm.encryptionId, allowedReaders: uploadReaders.entries, allowedGroups: uploadGroups.entries }
+    : null;
+
   // Upload document (save to blockchain)
   const handleUploadDocument = async () => {
     if (!profile) {
@@ -286,33 +477,107 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
       return;
     }
 
-    if (!uploadForm.walrusBlobId) {
+    if (!uploadForm.walrusBlobId || !uploadForm.file) {
       showToast('Please upload a file first!', 'warning');
       return;
     }
 
+    if (uploadEncryption && (uploadReaders.invalid.length > 0 || uploadGroups.invalid.length > 0)) {
+      showToast(`Not a valid address or group ID: ${[...uploadReaders.invalid, ...uploadGroups.invalid][0]}`, 'warning');
+      return;
+    }
+
     try {
-      await uploadDoc(
+      const { uploaded } = await uploadDoc(
         profile.id,
         uploadForm.title,
         uploadForm.description,
         uploadForm.walrusBlobId,
+        uploadForm.walrusEndEpoch,
+        uploadForm.file,
+        uploadEncryption,
         uploadForm.category
       );
+      showToast(`"${uploaded.title}" saved to the library!`, 'success');
       // Reset form
-      setUploadForm({ title: '', description: '', walrusBlobId: '', category: '' });
+      setUploadForm({ title: '', description: '', walrusBlobId: '', walrusEndEpoch: 0, file: null, encryptionId: '', category: '' });
+      setAccessInput({ readers: '', groups: '' });
       setSelectedFile(null);
+      setPreparedUpload(null);
+      setSelectedBundle(null);
+      setUploadedBundleFiles([]);
+      setDuplicateDoc(null);
       setWalrusUploadStatus('idle');
       setShowUploadModal(false);
-      setTimeout(() => {
-        refetchProfile();
-        refetchDocuments();
-      }, 2000);
     } catch (error) {
       console.error('Document upload error:', error);
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
+      }
+    }
+  };
+
+  // Store the file again on Walrus and record the new end epoch on-chain
+  // Bundles renew every file listed in their manifest
+  const handleExtendStorage = async (doc: Document, source?: File) => {
+    try {
+      const bundle = isBundle({ mimeType: doc.mimeType ?? null })
+        ? await readBundleManifest(fileSource(doc), undefined, readDocumentFile)
+        : undefined;
+      const { result } = await extendStorage(
+        { id: doc.id, walrusBlobId: doc.blobId, walrusEndEpoch: doc.endEpoch ?? null, encryptionId: doc.encryptionId ?? null },
+        { epochs: renewEpochs, source, bundle, onProgress: setRenewProgress }
+      );
+      showToast(
+        result ? 'Storage extended!' : 'Walrus already stores this file at least that long.',
+        result ? 'success' : 'info'
+      );
+    } catch (error) {
+      console.error('Storage renewal error:', error);
+      showToast(
+        error instanceof WalrusError ||
+          error instanceof BundleError ||
+          error instanceof DocumentDecryptionError ||
+          error instanceof ContractError ||
+          error instanceof InsufficientGasError
+          ? error.message
+          : 'Storage could not be extended. Please try again.',
+        'error'
+      );
+    } finally {
+      setRenewProgress(null);
     }
   };
 
+  // Replace who may decrypt the opened document (uploader only)
+  const handleSaveAccess = async (doc: Document) => {
+    if (!accessEdit) return;
+    const readers = parseAccessList(accessEdit.readers);
+    const groups = parseAccessList(accessEdit.groups);
+    if (readers.invalid.length > 0 || groups.invalid.length > 0) {
+      showToast(`Not a valid address or group ID: ${[...readers.invalid, ...groups.invalid][0]}`, 'warning');
+      return;
+    }
+
+    try {
+      await setDocumentAccess(doc.id, readers.entries, groups.entries);
+      setAccessEdit(null);
+      showToast('Access updated!', 'success');
+    } catch (error) {
+      console.error('Access update error:', error);
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
+      }
+    }
+  };
+
+  // Approximate wall-clock length of a number of Walrus epochs
+  const epochsLabel = (epochs: number) => {
+    if (!epochInfo) return `${epochs} epoch${epochs === 1 ? '' : 's'}`;
+    const days = Math.max(1, Math.round((epochs * epochInfo.epochDurationMs) / 86_400_000));
+    return `${epochs} epoch${epochs === 1 ? '' : 's'} (≈ ${days} day${days === 1 ? '' : 's'})`;
+  };
+
   // Convert documents from blockchain to Document type
   // Use mock data if no data from blockchain
   const mockDocuments: Document[] = [
@@ -352,18 +617,60 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
   ];
 
   // Convert blockchain documents to UI format
+  const toDocument = (doc: LibraryDocument): Document => ({
+    id: doc.id,
+    title: doc.title,
+    author: `${doc.uploader.slice(0, 6)}...${doc.uploader.slice(-4)}`,
+    likes: doc.votes,
+    blobId: doc.walrusBlobId,
+    description: doc.description || 'No description',
+    category: doc.category,
+    votedByMe: !!address && doc.voters.includes(address),
+    uploader: doc.uploader,
+    endEpoch: doc.walrusEndEpoch,
+    fileName: doc.fileName,
+    mimeType: doc.mimeType,
+    fileSize: doc.fileSize,
+    encryptionId: doc.encryptionId,
+    allowedReaders: doc.allowedReaders,
+    allowedGroups: doc.allowedGroups,
+    revisionNote: doc.revisionNote,
+    revisionTimestamp: doc.revisionTimestamp,
+    revisions: doc.revisions,
+  });
+  // What reading (and decrypting) a document's file needs
+  const fileSource = (doc: Document): EncryptedDocumentSource => ({
+    id: doc.id,
+    walrusBlobId: doc.blobId,
+    uploader: doc.uploader ?? '',
+    encryptionId: doc.encryptionId ?? null,
+    allowedReaders: doc.allowedReaders ?? [],
+    allowedGroups: doc.allowedGroups ?? [],
+  });
   const documents: Document[] = blockchainDocs.length > 0 
-    ? blockchainDocs.map(doc => ({
-        id: doc.id,
-        title: doc.title,
-        author: `${doc.uploader.slice(0, 6)}...${doc.uploader.slice(-4)}`,
-        likes: doc.votes,
-        blobId: doc.walrusBlobId,
-        description: doc.description || 'No description',
-        category: doc.category,
-      }))
+    ? blockchainDocs.map(toDocument)
     : mockDocuments;
 
+  // Read the opened document from the live list so optimistic votes show in the modal
+  const selectedDoc = openedDoc
+    ? documents.find(doc => doc.id === openedDoc.id) ?? openedDoc
+    : null;
+  // On-chain fields of the opened document, as the edit form needs them unformatted
+  const selectedLibraryDoc = selectedDoc ? blockchainDocs.find(doc => doc.id === selectedDoc.id) : undefined;
+  const reportedByMe = !!address && !!selectedLibraryDoc?.reports.some(report => report.reporter === address);
+  const selectedExpiry = selectedDoc ? getBlobExpiry(selectedDoc.endEpoch ?? null, epochInfo) : null;
+  const selectedIsBundle = !!selectedDoc && isBundle({ mimeType: selectedDoc.mimeType ?? null });
+
+  // Dry-run the pending upload / vote so problems show before the wallet opens
+  const { preflight: uploadPreflight } = useUploadDocumentPreflight(
+    showUploadModal && profile && uploadForm.title && uploadForm.walrusBlobId && uploadForm.file && uploadForm.category
+      ? { profileId: profile.id, ...uploadForm, file: uploadForm.file, encryption: uploadEncryption }
+      : null
+  );
+  const { preflight: votePreflight } = useVoteDocumentPreflight(
+    selectedDoc && selectedDoc.id.length >= 10 && !isVotePending(selectedDoc.id) ? selectedDoc.id : null
+  );
+
   // Leaderboard: Most liked documents (top 5)
   const leaderboard: LeaderboardUser[] = [...documents]
     .sort((a, b) => b.likes - a.likes)
@@ -388,31 +695,42 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
   };
   // handle report function
   const handleReport = (docId: string) => {
+    if (!address) {
+      showToast('Please connect your wallet or log in with zkLogin!', 'warning');
+      return;
+    }
     setReportTargetId(docId);   // which document is being reported?
     setShowReportModal(true);   // open popup
   };
-  const handleSubmitReport = () => {
-    if (!reportBlobId.trim()) {
-      showToast("Please enter a Blob ID.", 'warning');
+  const handleSubmitReport = async () => {
+    if (!reportReason) {
+      showToast("Please choose a reason.", 'warning');
       return;
     }
-  
-    console.log("Report sent:", {
-      documentId: reportTargetId,
-      blobId: reportBlobId,
-    });
-  
-    showToast("Report successfully sent!", 'success');
-  
-    setReportBlobId("");
-    setShowReportModal(false);
+
+    try {
+      // Recorded on-chain; moderators review it in their queue
+      await reportDocument(reportTargetId, reportReason, reportDetails.trim());
+      showToast("Report sent. A moderator will review it.", 'success');
+      setReportReason('');
+      setReportDetails('');
+      setShowReportModal(false);
+    } catch (error: unknown) {
+      console.error('Report error:', error);
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        showToast(`Your report was not sent: ${errorMessage}`, 'error');
+      }
+    }
   };
   
 
   // Send vote to blockchain
   const handleLike = async (docId: string) => {
     if (!address) {
-      showToast('Please connect your wallet!', 'warning');
+      showToast('Please connect your wallet or log in with zkLogin!', 'warning');
       return;
     }
 
@@ -422,61 +740,42 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
     }
 
     try {
+      // Resolves to null when a vote for this document is already pending or counted
       await vote(docId);
-      // Wait a bit and refetch
-      setTimeout(() => {
-        refetchDocuments();
-      }, 3000);
     } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('E_ALREADY_VOTED') || errorMessage.includes('0')) {
-        showToast('You have already voted for this document!', 'error');
-      } else if (errorMessage.includes('E_CANNOT_VOTE_OWN_DOCUMENT') || errorMessage.includes('1')) {
-        showToast('You cannot vote for your own document!', 'error');
+      // Contract and gas errors already carry a user-facing message (see lib/errors.ts)
+      if (error instanceof ContractError || error instanceof InsufficientGasError) {
+        showToast(error.message, 'error');
       } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
         console.error('Voting error:', error);
+        showToast(`Your vote was reverted: ${errorMessage}`, 'error');
       }
     }
   };
 
-  const openWalrusLink = (blobId: string) => {
-    // Walrus Aggregator URL
-    const walrusUrl = `https://aggregator.walrus-testnet.walrus.space/v1/blobs/${blobId}`;
-    
-    // Open URL directly - browser will download the file
-    // User should change the extension of the downloaded file to .pdf
-    window.open(walrusUrl, '_blank');
-  };
-  
-  // Function to fetch file and download with correct name
-  const downloadWalrusFile = async (blobId: string, filename: string) => {
+  // Function to fetch file and download with its original name and type
+  // Bundles are downloaded as one zip of all their files
+  const downloadWalrusFile = async (doc: Document) => {
     try {
-      const walrusUrl = `https://aggregator.walrus-testnet.walrus.space/v1/blobs/${blobId}`;
-      
-      const response = await fetch(walrusUrl);
-      if (!response.ok) throw new Error('Download failed');
-      
-      const blob = await response.blob();
-      
-      // Add extension to filename (if missing)
-      let finalFilename = filename;
-      if (!filename.includes('.')) {
-        finalFilename = `${filename}.pdf`; // Default to PDF
+      if (isBundle({ mimeType: doc.mimeType ?? null })) {
+        setZippingBundle(true);
+        await saveBundleZip({ ...fileSource(doc), title: doc.title, fileName: doc.fileName ?? null }, readDocumentFile);
+        return;
       }
-      
-      // Download file
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = finalFilename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      
+      // Falls back to the storage nodes if no aggregator serves the blob; encrypted files are decrypted
+      const blob = await readDocumentFile(fileSource(doc));
+      await saveDocumentFile(blob, { title: doc.title, fileName: doc.fileName ?? null, mimeType: doc.mimeType ?? null });
     } catch (error) {
       console.error('Download error:', error);
-      showToast('File could not be downloaded. Please try again.', 'error');
+      showToast(
+        error instanceof WalrusError || error instanceof DocumentDecryptionError || error instanceof BundleError
+          ? error.message
+          : 'File could not be downloaded. Please try again.',
+        'error'
+      );
+    } finally {
+      setZippingBundle(false);
     }
   };
 
@@ -543,21 +842,21 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
         </div>
 
         {/* zkLogin User Info */}
-        {zkLoginUserInfo && (
+        {kind === 'zklogin' && displayInfo && (
           <div className={`mt-3 p-3 rounded-lg border ${
             isDark ? 'border-[#5C3E94]/30 bg-[#412B6B]/30' : 'border-[#A59D84]/30 bg-[#ECEBDE]/50'
           }`}>
             <div className="flex items-center gap-2">
-              {zkLoginUserInfo.picture && (
+              {displayInfo.picture && (
                 <img 
-                  src={zkLoginUserInfo.picture} 
+                  src={displayInfo.picture} 
                   alt="Profile" 
                   className="w-8 h-8 rounded-full"
                 />
               )}
               <div className="flex-1 min-w-0">
                 <p className={`text-xs font-medium truncate ${isDark ? 'text-slate-200' : 'text-slate-800'}`}>
-                  {zkLoginUserInfo.name || zkLoginUserInfo.email}
+                  {displayInfo.name || displayInfo.email}
                 </p>
                 <p className={`text-[10px] ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
                   zkLogin
@@ -589,14 +888,14 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handleCreateProfile}
-                disabled={isCreatingProfile || !walletAddress}
+                disabled={isCreatingProfile || !address}
                 className={`w-full py-2 px-3 rounded-lg text-xs font-medium ${
                   isDark 
                     ? 'bg-[#F25912] text-white hover:bg-[#F25912]/80' 
                     : 'bg-[#A59D84] text-white hover:bg-[#A59D84]/80'
                 } disabled:opacity-50`}
               >
-                {isCreatingProfile ? 'Creating...' : zkLoginAddress && !walletAddress ? 'Connect Wallet (for zkLogin profile)' : 'Create Profile'}
+                {isCreatingProfile ? 'Creating...' : 'Create Profile'}
               </motion.button>
             )}
           </div>
@@ -867,7 +1166,7 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
-              onClick={handleLogout}
+              onClick={logout}
               transition={{ type: "spring", stiffness: 200 }}
               className={`w-10 h-10 flex items-center justify-center rounded-lg transition-colors ${
                 isDark 
@@ -959,16 +1258,39 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                   <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
                     isDark ? 'bg-[#5C3E94]/30' : 'bg-[#A59D84]/20'
                   }`}>
-                    <FileText className={`w-5 h-5 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                    <FileTypeIcon
+                      mimeType={doc.mimeType}
+                      fileName={doc.fileName}
+                      className={`w-5 h-5 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}
+                    />
                   </div>
                   <h3 className={`font-bold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
                     {doc.title}
                   </h3>
+                  {doc.encryptionId && (
+                    <Lock
+                      aria-label="Encrypted"
+                      className={`w-4 h-4 shrink-0 ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}
+                    />
+                  )}
+                  {(() => {
+                    const { status } = getBlobExpiry(doc.endEpoch ?? null, epochInfo);
+                    if (status !== 'expiring' && status !== 'expired') return null;
+                    return (
+                      <span className={`ml-auto shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold ${
+                        status === 'expired' ? 'bg-red-500/20 text-red-500' : 'bg-yellow-500/20 text-yellow-600'
+                      }`}>
+                        <Clock className="w-3 h-3" />
+                        {status === 'expired' ? 'Expired' : 'Expiring'}
+                      </span>
+                    );
+                  })()}
                 </div>
 
                 {/* Author */}
                 <p className={`text-sm mb-4 ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
                   Author: {doc.author}
+                  {doc.fileSize != null && ` · ${formatBytes(doc.fileSize)}`}
                 </p>
 
                 <div className={`h-px mb-4 ${isDark ? 'bg-[#5C3E94]/30' : 'bg-[#C1BAA1]/30'}`} />
@@ -981,15 +1303,15 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                     e.stopPropagation(); // Prevent modal from opening
                     handleLike(doc.id);
                   }}
-                  disabled={isVoting}
+                  disabled={doc.votedByMe || isVotePending(doc.id)}
                   className={`w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium ${
                     isDark 
                       ? 'bg-[#F25912] text-white hover:bg-[#F25912]/80' 
                       : 'bg-[#C1BAA1] text-white hover:bg-[#C1BAA1]/80'
                   } disabled:opacity-50`}
                 >
-                  <Heart className="w-4 h-4" />
-                  {isVoting ? '...' : `LIKE (${doc.likes})`}
+                  <Heart className={`w-4 h-4 ${doc.votedByMe ? 'fill-current' : ''}`} />
+                  {isVotePending(doc.id) ? `... (${doc.likes})` : `LIKE (${doc.likes})`}
                 </motion.button>
 
                 <p className={`text-[10px] mt-2 text-center ${isDark ? 'text-slate-500' : 'text-[#A59D84]/60'}`}>
@@ -999,6 +1321,26 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
             ))}
           </div>
           )}
+
+          {/* Load More - next page of DocumentUploaded events */}
+          {!docsLoading && hasMoreDocs && (
+            <div className="flex justify-center mt-8">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={loadMoreDocuments}
+                disabled={docsLoadingMore}
+                className={`flex items-center gap-2 py-3 px-6 rounded-xl border-2 font-semibold ${
+                  isDark 
+                    ? 'border-[#5C3E94] bg-[#412B6B] hover:bg-[#5C3E94] text-slate-200' 
+                    : 'border-[#A59D84] bg-[#D7D3BF] hover:bg-[#A59D84] text-slate-900'
+                } disabled:opacity-50`}
+              >
+                {docsLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                {docsLoadingMore ? 'Loading...' : 'Load more documents'}
+              </motion.button>
+            </div>
+          )}
         </div>
       </div>
       {/* Document Detail Modal */}
@@ -1027,7 +1369,7 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
               className="fixed inset-0 z-50 flex items-center justify-center p-8"
             >
               <div
-                className={`relative w-full max-w-3xl rounded-2xl shadow-2xl border-2 overflow-hidden ${
+                className={`relative w-full max-w-3xl max-h-full rounded-2xl shadow-2xl border-2 overflow-y-auto ${
                   isDark 
                     ? 'bg-[#412B6B] border-[#5C3E94]' 
                     : 'bg-white border-[#C1BAA1]'
@@ -1053,7 +1395,11 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                     <div className={`w-16 h-16 rounded-xl flex items-center justify-center ${
                       isDark ? 'bg-[#5C3E94]/30' : 'bg-[#A59D84]/20'
                     }`}>
-                      <FileText className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                      <FileTypeIcon
+                        mimeType={selectedDoc.mimeType}
+                        fileName={selectedDoc.fileName}
+                        className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}
+                      />
                     </div>
                     <div>
                       <h2 className={`text-3xl font-bold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
@@ -1062,8 +1408,24 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                       <p className={`text-sm mt-1 ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
                         Author: {selectedDoc.author}
                       </p>
+                      {selectedDoc.fileName && (
+                        <p className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {selectedDoc.fileName}
+                          {selectedDoc.fileSize != null && ` · ${formatBytes(selectedDoc.fileSize)}`}
+                        </p>
+                      )}
                     </div>
                   </div>
+
+                  {/* Edit / delete - uploader only */}
+                  {selectedLibraryDoc && address === selectedLibraryDoc.uploader && (
+                    <DocumentOwnerControls
+                      key={selectedLibraryDoc.id}
+                      document={selectedLibraryDoc}
+                      isDark={isDark}
+                      onDeleted={() => setSelectedDoc(null)}
+                    />
+                  )}
                 </div>
 
                 {/* Modal Body */}
@@ -1078,34 +1440,42 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                     </p>
                   </div>
 
+                  {/* File preview, read through the Walrus aggregators; bundles list their files */}
+                  {!selectedDoc.blobId.startsWith('blob') && (
+                    <div>
+                      <h3 className={`text-xl font-semibold mb-3 ${isDark ? 'text-slate-200' : 'text-slate-900'}`}>
+                        {selectedIsBundle ? 'Files' : 'Preview'}
+                      </h3>
+                      {selectedIsBundle ? (
+                        <BundleViewer
+                          key={selectedDoc.id}
+                          document={{ ...fileSource(selectedDoc), title: selectedDoc.title, fileName: selectedDoc.fileName ?? null }}
+                          isDark={isDark}
+                        />
+                      ) : (
+                        <DocumentViewer
+                          key={selectedDoc.id}
+                          document={{
+                            ...fileSource(selectedDoc),
+                            fileName: selectedDoc.fileName ?? null,
+                            mimeType: selectedDoc.mimeType ?? null,
+                            fileSize: selectedDoc.fileSize ?? null,
+                          }}
+                          isDark={isDark}
+                        />
+                      )}
+                    </div>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex gap-4">
-                    {/* Walrus Link Button */}
-                    {/* <motion.button
-                      whileHover={{ scale: 1.05 }}
-                      whileTap={{ scale: 0.95 }}
-                      onClick={() => openWalrusLink(selectedDoc.blobId)}
-                      disabled={selectedDoc.blobId.startsWith('blob')} // Mock data için devre dışı
-                      className={`flex-1 flex items-center justify-center gap-3 py-4 px-6 rounded-xl text-lg font-semibold shadow-lg ${
-                        selectedDoc.blobId.startsWith('blob')
-                          ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
-                          : isDark 
-                          ? 'bg-gradient-to-r from-[#5C3E94] to-[#412B6B] text-white hover:from-[#6C4EA4] hover:to-[#5C3E94]' 
-                          : 'bg-gradient-to-r from-[#A59D84] to-[#C1BAA1] text-white hover:from-[#B5AD94] hover:to-[#D1CAB1]'
-                      }`}
-                      title={selectedDoc.blobId.startsWith('blob') ? 'Bu örnek veri, gerçek dosya değil' : `Blob ID: ${selectedDoc.blobId}`}
-                    >
-                      <ExternalLink className="w-6 h-6" />
-                      {selectedDoc.blobId.startsWith('blob') ? 'Örnek Veri' : 'Dosyayı Görüntüle'}
-                    </motion.button>
- */}
                     {/* Download Button - Sadece gerçek dosyalar için */}
                     {/* Download Button */}
                       <motion.button
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
-                        onClick={() => downloadWalrusFile(selectedDoc.blobId, selectedDoc.title)}
-                        disabled={selectedDoc.blobId.startsWith('blob')}
+                        onClick={() => downloadWalrusFile(selectedDoc)}
+                        disabled={selectedDoc.blobId.startsWith('blob') || zippingBundle}
                         className={`flex-1 flex items-center justify-center gap-3 py-4 px-6 rounded-xl text-lg font-semibold shadow-lg ${
                           selectedDoc.blobId.startsWith('blob')
                             ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
@@ -1114,39 +1484,240 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                             : 'bg-gradient-to-r from-green-500 to-green-400 text-white hover:from-green-400 hover:to-green-300'
                         }`}
                       >
-                        <FileText className="w-6 h-6" />
-                        {!selectedDoc.blobId.startsWith('blob') ? 'Download (.pdf)' : 'Not Downloadable'}
+                        {zippingBundle ? (
+                          <Loader2 className="w-6 h-6 animate-spin" />
+                        ) : (
+                          <FileTypeIcon mimeType={selectedDoc.mimeType} fileName={selectedDoc.fileName} className="w-6 h-6" />
+                        )}
+                        {selectedDoc.blobId.startsWith('blob')
+                          ? 'Not Downloadable'
+                          : zippingBundle
+                          ? 'Preparing zip...'
+                          : selectedIsBundle
+                          ? `Download all as zip${selectedDoc.fileSize != null ? ` (${formatBytes(selectedDoc.fileSize)})` : ''}`
+                          : selectedDoc.fileSize != null
+                          ? `Download (${formatBytes(selectedDoc.fileSize)})`
+                          : 'Download'}
                       </motion.button>
                     {/* Like Button */}
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                       onClick={() => handleLike(selectedDoc.id)}
-                      disabled={isVoting}
+                      disabled={selectedDoc.votedByMe || isVotePending(selectedDoc.id)}
                       className={`flex items-center justify-center gap-3 py-4 px-6 rounded-xl text-lg font-semibold shadow-lg ${
                         isDark 
                           ? 'bg-[#F25912] text-white hover:bg-[#F25912]/80' 
                           : 'bg-[#C1BAA1] text-white hover:bg-[#C1BAA1]/80'
                       } disabled:opacity-50`}
                     >
-                      <Heart className="w-6 h-6" />
-                      {isVoting ? '...' : selectedDoc.likes}
+                      <Heart className={`w-6 h-6 ${selectedDoc.votedByMe ? 'fill-current' : ''}`} />
+                      {selectedDoc.likes}
                     </motion.button>
                     {/* report butonu */}
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
                     onClick={() => handleReport(selectedDoc.id)}
+                    disabled={reportedByMe}
                     className={`flex items-center justify-center gap-3 py-4 px-6 rounded-xl text-lg font-semibold shadow-lg ${
                       isDark
                         ? 'bg-red-600 text-white hover:bg-red-500'
                         : 'bg-red-500 text-white hover:bg-red-400'
-                    }`}
+                    } disabled:opacity-50`}
                   >
-                    ⚠️ Report
+                    {reportedByMe ? '⚠️ Reported' : '⚠️ Report'}
                   </motion.button>
                   </div>
 
+                  {/* Vote preflight */}
+                  {votePreflight && (
+                    <p className={`mt-2 text-xs ${
+                      votePreflight.error || votePreflight.insufficientBalance
+                        ? 'text-red-500'
+                        : isDark ? 'text-slate-400' : 'text-slate-500'
+                    }`}>
+                      {votePreflight.error
+                        ? votePreflight.error.message
+                        : votePreflight.insufficientBalance
+                        ? new InsufficientGasError(votePreflight.gasRequired).message
+                        : `Estimated gas to vote: ~${formatSui(votePreflight.gasEstimate)}`}
+                    </p>
+                  )}
+
+
+                  {/* Walrus storage period */}
+                  {selectedExpiry && selectedExpiry.status !== 'unknown' && (
+                    <div className={`p-3 rounded-lg text-sm ${
+                      selectedExpiry.status === 'expired'
+                        ? 'bg-red-500/10 text-red-500'
+                        : selectedExpiry.status === 'expiring'
+                        ? 'bg-yellow-500/10 text-yellow-600'
+                        : isDark ? 'bg-[#2d1f45] text-slate-300' : 'bg-gray-100 text-slate-600'
+                    }`}>
+                      <p className="flex items-center gap-2">
+                        <Clock className="w-4 h-4 shrink-0" />
+                        {selectedExpiry.status === 'expired'
+                          ? `Walrus storage expired around ${new Date(selectedExpiry.expiresAt!).toLocaleDateString()}.`
+                          : `Stored on Walrus until ≈ ${new Date(selectedExpiry.expiresAt!).toLocaleDateString()} (${selectedExpiry.epochsLeft} epoch${selectedExpiry.epochsLeft === 1 ? '' : 's'} left).`}
+                      </p>
+
+                      {/* Renewal - uploader only */}
+                      {address && address === selectedDoc.uploader && (
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                          <select
+                            value={renewEpochs}
+                            onChange={(e) => setRenewEpochs(Number(e.target.value))}
+                            disabled={isExtending}
+                            className={`p-2 rounded-lg border text-xs outline-none ${
+                              isDark
+                                ? 'bg-[#2d1f45] border-[#5C3E94]/40 text-slate-100'
+                                : 'bg-white border-[#C1BAA1]/40 text-slate-900'
+                            }`}
+                          >
+                            {STORAGE_EPOCH_OPTIONS.map((epochs) => (
+                              <option key={epochs} value={epochs}>{epochsLabel(epochs)}</option>
+                            ))}
+                          </select>
+                          {selectedExpiry.status === 'expired' && selectedIsBundle ? (
+                            // Each file would have to be provided again; a new upload is simpler
+                            <span className="text-xs">Expired bundles cannot be renewed. Upload the folder again.</span>
+                          ) : selectedExpiry.status === 'expired' && selectedDoc.encryptionId ? (
+                            // The original is the plaintext: it must not reach Walrus unencrypted
+                            <span className="text-xs">Expired encrypted documents cannot be renewed. Publish the file again as a new revision below.</span>
+                          ) : selectedExpiry.status === 'expired' ? (
+                            // Walrus no longer serves the file, so the uploader provides it again
+                            <label className={`flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white cursor-pointer ${
+                              isExtending ? 'opacity-50 pointer-events-none' : ''
+                            } ${isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'}`}>
+                              <CloudUpload className="w-4 h-4" />
+                              Re-upload original file
+                              <input
+                                type="file"
+                                className="hidden"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  e.target.value = '';
+                                  if (file) void handleExtendStorage(selectedDoc, file);
+                                }}
+                              />
+                            </label>
+                          ) : (
+                            <button
+                              onClick={() => handleExtendStorage(selectedDoc)}
+                              disabled={isExtending}
+                              className={`flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white disabled:opacity-50 ${
+                                isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                              }`}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                              Extend storage
+                            </button>
+                          )}
+                          {isExtending && (
+                            <span className="flex items-center gap-1 text-xs">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              {renewProgress && renewProgress.total > 0
+                                ? `${Math.round((renewProgress.loaded / renewProgress.total) * 100)}%`
+                                : 'Renewing...'}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Encrypted access - readers and groups, editable by the uploader */}
+                  {selectedDoc.encryptionId && (
+                    <div className={`p-3 rounded-lg text-sm ${isDark ? 'bg-[#2d1f45] text-slate-300' : 'bg-gray-100 text-slate-600'}`}>
+                      <p className="flex items-center gap-2">
+                        <Lock className="w-4 h-4 shrink-0" />
+                        Encrypted with Seal · shared with {selectedDoc.allowedReaders?.length ?? 0} address
+                        {selectedDoc.allowedReaders?.length === 1 ? '' : 'es'} and {selectedDoc.allowedGroups?.length ?? 0} group
+                        {selectedDoc.allowedGroups?.length === 1 ? '' : 's'}
+                      </p>
+
+                      {address && address === selectedDoc.uploader && (
+                        accessEdit ? (
+                          <div className="mt-3 space-y-2">
+                            {(['readers', 'groups'] as const).map((field) => (
+                              <textarea
+                                key={field}
+                                value={accessEdit[field]}
+                                onChange={(e) => setAccessEdit({ ...accessEdit, [field]: e.target.value })}
+                                placeholder={field === 'readers' ? 'Reader addresses (0x...), one per line' : 'Access group IDs (0x...), one per line'}
+                                rows={2}
+                                className={`w-full p-2 rounded-lg border text-xs font-mono outline-none resize-none ${
+                                  isDark
+                                    ? 'bg-[#211832] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500'
+                                    : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84]'
+                                }`}
+                              />
+                            ))}
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleSaveAccess(selectedDoc)}
+                                disabled={isSettingAccess}
+                                className={`flex items-center gap-2 py-2 px-3 rounded-lg text-xs font-semibold text-white disabled:opacity-50 ${
+                                  isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                                }`}
+                              >
+                                {isSettingAccess && <Loader2 className="w-3 h-3 animate-spin" />}
+                                Save access
+                              </button>
+                              <button
+                                onClick={() => setAccessEdit(null)}
+                                className={`py-2 px-3 rounded-lg text-xs font-medium ${
+                                  isDark ? 'text-slate-300 hover:bg-[#5C3E94]/30' : 'text-slate-600 hover:bg-gray-200'
+                                }`}
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() =>
+                              setAccessEdit({
+                                readers: (selectedDoc.allowedReaders ?? []).join('\n'),
+                                groups: (selectedDoc.allowedGroups ?? []).join('\n'),
+                              })
+                            }
+                            className={`mt-3 py-2 px-3 rounded-lg text-xs font-semibold text-white ${
+                              isDark ? 'bg-[#5C3E94] hover:bg-[#6C4EA4]' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                            }`}
+                          >
+                            Manage access
+                          </button>
+                        )
+                      )}
+                    </div>
+                  )}
+
+                  {/* Revisions - older files stay downloadable, text files can be compared */}
+                  {!selectedDoc.blobId.startsWith('blob') && (
+                    <div>
+                      <h3 className={`text-xl font-semibold mb-3 ${isDark ? 'text-slate-200' : 'text-slate-900'}`}>
+                        Revisions
+                      </h3>
+                      <RevisionHistory
+                        key={selectedDoc.id}
+                        document={{
+                          ...fileSource(selectedDoc),
+                          title: selectedDoc.title,
+                          fileName: selectedDoc.fileName ?? null,
+                          mimeType: selectedDoc.mimeType ?? null,
+                          fileSize: selectedDoc.fileSize ?? null,
+                          walrusEndEpoch: selectedDoc.endEpoch ?? null,
+                          revisionNote: selectedDoc.revisionNote ?? '',
+                          revisionTimestamp: selectedDoc.revisionTimestamp ?? 0,
+                          revisions: selectedDoc.revisions ?? [],
+                        }}
+                        canPublish={!!address && address === selectedDoc.uploader}
+                        isDark={isDark}
+                      />
+                    </div>
+                  )}
 
                   {/* Blob ID gösterimi */}
                   {!selectedDoc.blobId.startsWith('blob') && (
@@ -1233,15 +1804,90 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
 
                 {/* Modal Body */}
                 <div className="p-4 sm:p-6 space-y-4 max-h-[60vh] sm:max-h-[70vh] overflow-y-auto">
+                  {/* Storage duration - applies to the next Walrus upload */}
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                      Storage Duration
+                    </label>
+                    <select
+                      value={storageEpochs}
+                      onChange={(e) => setStorageEpochs(Number(e.target.value))}
+                      disabled={walrusUploading}
+                      className={`w-full p-3 rounded-lg border outline-none ${
+                        isDark 
+                          ? 'bg-[#2d1f45] border-[#5C3E94]/40 text-slate-100 focus:border-[#F25912]' 
+                          : 'bg-white border-[#C1BAA1]/40 text-slate-900 focus:border-[#A59D84]'
+                      }`}
+                    >
+                      {STORAGE_EPOCH_OPTIONS.map((epochs) => (
+                        <option key={epochs} value={epochs}>{epochsLabel(epochs)}</option>
+                      ))}
+                    </select>
+                    <p className={`mt-1 text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                      The file is removed from Walrus afterwards unless you extend it.
+                    </p>
+                  </div>
+
+                  {/* Encryption - decided before the file is uploaded */}
+                  <div>
+                    <label className={`flex items-center gap-2 text-sm font-medium ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                      <input
+                        type="checkbox"
+                        checked={encryptUpload}
+                        onChange={(e) => handleEncryptToggle(e.target.checked)}
+                        disabled={walrusUploading}
+                      />
+                      <Lock className="w-4 h-4" />
+                      Encrypt (only people you choose can open it)
+                    </label>
+                    {encryptUpload && (
+                      <div className="mt-2 space-y-2">
+                        <textarea
+                          value={accessInput.readers}
+                          onChange={(e) => setAccessInput({ ...accessInput, readers: e.target.value })}
+                          placeholder="Reader addresses (0x...), one per line"
+                          rows={2}
+                          className={`w-full p-3 rounded-lg border text-xs font-mono outline-none resize-none ${
+                            isDark 
+                              ? 'bg-[#2d1f45] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500 focus:border-[#F25912]' 
+                              : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84] focus:border-[#A59D84]'
+                          }`}
+                        />
+                        <textarea
+                          value={accessInput.groups}
+                          onChange={(e) => setAccessInput({ ...accessInput, groups: e.target.value })}
+                          placeholder="Access group IDs (0x...), one per line"
+                          rows={2}
+                          className={`w-full p-3 rounded-lg border text-xs font-mono outline-none resize-none ${
+                            isDark 
+                              ? 'bg-[#2d1f45] border-[#5C3E94]/40 text-slate-100 placeholder-slate-500 focus:border-[#F25912]' 
+                              : 'bg-white border-[#C1BAA1]/40 text-slate-900 placeholder-[#A59D84] focus:border-[#A59D84]'
+                          }`}
+                        />
+                        <p className={`text-xs ${
+                          uploadReaders.invalid.length > 0 || uploadGroups.invalid.length > 0
+                            ? 'text-red-500'
+                            : isDark ? 'text-slate-500' : 'text-slate-400'
+                        }`}>
+                          {uploadReaders.invalid.length > 0 || uploadGroups.invalid.length > 0
+                            ? `Not a valid address or group ID: ${[...uploadReaders.invalid, ...uploadGroups.invalid][0]}`
+                            : 'You can always open your own uploads. Create groups (e.g. for a course) on your profile page.'}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Dosya Yükleme Alanı */}
                   <div>
                     <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-                      Select File (will be uploaded to Walrus)
+                      Select Files (will be uploaded to Walrus)
                     </label>
                     <div
                       className={`relative border-2 border-dashed rounded-xl p-4 sm:p-6 text-center transition-all ${
                         walrusUploadStatus === 'success'
                           ? isDark ? 'border-green-500/60 bg-green-500/10' : 'border-green-500/60 bg-green-50'
+                          : walrusUploadStatus === 'duplicate'
+                          ? isDark ? 'border-yellow-500/60 bg-yellow-500/10' : 'border-yellow-500/60 bg-yellow-50'
                           : walrusUploadStatus === 'error'
                           ? isDark ? 'border-red-500/60 bg-red-500/10' : 'border-red-500/60 bg-red-50'
                           : isDark 
@@ -1251,24 +1897,69 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                     >
                       <input
                         type="file"
+                        multiple
                         onChange={handleFileSelect}
-                        accept=".pdf,.doc,.docx,.txt,.md"
+                        accept=".pdf,.doc,.docx,.txt,.md,.png,.jpg,.jpeg,.gif,.webp,.c,.h,.cpp,.hpp,.py,.js,.ts,.rs,.go,.java,.sh"
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                         disabled={walrusUploading}
                       />
                       
                       {walrusUploading ? (
                         <div className="flex flex-col items-center gap-2">
-                          <Loader2 className={`w-8 h-8 animate-spin ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                          {walrusProgress?.phase === 'uploading' ? (
+                            <CloudUpload className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                          ) : (
+                            <Loader2 className={`w-8 h-8 animate-spin ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                          )}
                           <p className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-                            Uploading to Walrus...
+                            {checkingDuplicate
+                              ? 'Checking the library for this file...'
+                              : encrypting
+                              ? 'Encrypting file...'
+                              : walrusProgress && 'path' in walrusProgress
+                              ? walrusProgress.path
+                                ? `File ${walrusProgress.fileIndex + 1} of ${walrusProgress.fileCount}: ${walrusProgress.path}`
+                                : 'Uploading the file list...'
+                              : walrusProgress?.phase === 'reading'
+                              ? 'Reading file...'
+                              : walrusProgress?.phase === 'storing'
+                              ? 'Walrus is storing the file...'
+                              : walrusProgress?.publisher
+                              ? `Uploading to Walrus via ${walrusProgress.publisher}...`
+                              : 'Uploading to Walrus...'}
                           </p>
+                          {walrusProgress && walrusProgress.total > 0 && (
+                            <>
+                              <div className={`w-full h-2 rounded-full overflow-hidden ${isDark ? 'bg-[#211832]' : 'bg-gray-200'}`}>
+                                <div
+                                  className={`h-full rounded-full transition-all duration-200 ${isDark ? 'bg-[#F25912]' : 'bg-[#A59D84]'}`}
+                                  style={{ width: `${Math.round((walrusProgress.loaded / walrusProgress.total) * 100)}%` }}
+                                />
+                              </div>
+                              <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                                {formatBytes(walrusProgress.loaded)} / {formatBytes(walrusProgress.total)} ·{' '}
+                                {Math.round((walrusProgress.loaded / walrusProgress.total) * 100)}%
+                              </p>
+                            </>
+                          )}
                         </div>
                       ) : walrusUploadStatus === 'success' ? (
                         <div className="flex flex-col items-center gap-2">
                           <CheckCircle className="w-8 h-8 text-green-500" />
                           <p className={`text-sm font-medium ${isDark ? 'text-green-400' : 'text-green-600'}`}>
-                            {selectedFile?.name} uploaded!
+                            {selectedBundle
+                              ? `${uploadForm.file?.fileName} (${selectedBundle.length} file${selectedBundle.length === 1 ? '' : 's'}) uploaded!`
+                              : `${selectedFile?.name} uploaded!`}
+                          </p>
+                          <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                            Click to select another file
+                          </p>
+                        </div>
+                      ) : walrusUploadStatus === 'duplicate' ? (
+                        <div className="flex flex-col items-center gap-2">
+                          <AlertCircle className="w-8 h-8 text-yellow-500" />
+                          <p className={`text-sm font-medium ${isDark ? 'text-yellow-400' : 'text-yellow-600'}`}>
+                            {selectedFile?.name} is already in the library
                           </p>
                           <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
                             Click to select another file
@@ -1288,16 +1979,85 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                         <div className="flex flex-col items-center gap-2">
                           <CloudUpload className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
                           <p className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-                            Click or drag to select file
+                            Click or drag to select files
                           </p>
                           <p className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
-                            PDF, DOC, DOCX, TXT, MD supported
+                            PDF, DOC, TXT, MD, images and source files supported. Several files are shared as one bundle
                           </p>
                         </div>
                       )}
                     </div>
                   </div>
 
+                  {/* Whole project folder, uploaded as a bundle with its relative paths */}
+                  {!walrusUploading && (
+                    <label className={`inline-flex items-center gap-1.5 text-xs font-medium cursor-pointer ${
+                      isDark ? 'text-[#F25912] hover:text-[#F25912]/80' : 'text-[#A59D84] hover:text-[#A59D84]/80'
+                    }`}>
+                      <FolderOpen className="w-4 h-4" />
+                      Or select a whole folder
+                      <input
+                        type="file"
+                        ref={(input) => {
+                          if (input) input.webkitdirectory = true;
+                        }}
+                        onChange={handleFileSelect}
+                        className="hidden"
+                      />
+                    </label>
+                  )}
+
+                  {/* Cancel / retry (outside the drop zone, which is covered by the file input) */}
+                  {(walrusUploading || (walrusUploadStatus === 'error' && (selectedFile || selectedBundle))) && (
+                    <div className="flex justify-end">
+                      {walrusUploading ? (
+                        <button
+                          onClick={cancelWalrusUpload}
+                          className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                            isDark ? 'text-slate-300 hover:bg-[#5C3E94]/30' : 'text-slate-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          Cancel upload
+                        </button>
+                      ) : (
+                        <button
+                          onClick={retryWalrusUpload}
+                          className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white transition-colors ${
+                            isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                          }`}
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Retry upload
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Duplicate warning - the original is linked instead of saving a second Document */}
+                  {walrusUploadStatus === 'duplicate' && duplicateDoc && (
+                    <div className={`p-3 rounded-lg text-sm ${isDark ? 'bg-yellow-500/10 text-yellow-300' : 'bg-yellow-50 text-yellow-700'}`}>
+                      <p>
+                        This file was already shared as <span className="font-semibold">"{duplicateDoc.title}"</span> by{' '}
+                        {duplicateDoc.uploader === address
+                          ? 'you'
+                          : `${duplicateDoc.uploader.slice(0, 6)}...${duplicateDoc.uploader.slice(-4)}`}
+                        . Vote for the original instead of uploading it again.
+                      </p>
+                      <button
+                        onClick={() => {
+                          setSelectedDoc(toDocument(duplicateDoc));
+                          setShowUploadModal(false);
+                        }}
+                        className={`mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white ${
+                          isDark ? 'bg-[#F25912] hover:bg-[#F25912]/80' : 'bg-[#A59D84] hover:bg-[#A59D84]/80'
+                        }`}
+                      >
+                        <FileText className="w-3 h-3" />
+                        View original
+                      </button>
+                    </div>
+                  )}
+
                   {/* Walrus Blob ID (otomatik doldurulur veya manuel girilebilir) */}
                   {uploadForm.walrusBlobId && (
                     <div className={`p-3 rounded-lg ${isDark ? 'bg-[#2d1f45]' : 'bg-gray-50'}`}>
@@ -1358,12 +2118,9 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                       }`}
                     >
                       <option value="">Select category</option>
-                      <option value="42 Project">42 Project</option>
-                      <option value="Programming">Programming</option>
-                      <option value="Mathematics">Mathematics</option>
-                      <option value="Physics">Physics</option>
-                      <option value="Blockchain">Blockchain</option>
-                      <option value="Other">Other</option>
+                      {DOCUMENT_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
                     </select>
                   </div>
 
@@ -1389,6 +2146,26 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
                     )}
                   </motion.button>
 
+                  {/* Upload preflight */}
+                  {uploadPreflight && (
+                    <div className={`flex items-center justify-center gap-2 text-sm ${
+                      uploadPreflight.error || uploadPreflight.insufficientBalance
+                        ? 'text-red-500'
+                        : isDark ? 'text-slate-400' : 'text-[#A59D84]'
+                    }`}>
+                      {uploadPreflight.error || uploadPreflight.insufficientBalance ? (
+                        <>
+                          <AlertCircle className="w-4 h-4" />
+                          {uploadPreflight.error
+                            ? uploadPreflight.error.message
+                            : new InsufficientGasError(uploadPreflight.gasRequired).message}
+                        </>
+                      ) : (
+                        `Estimated gas: ~${formatSui(uploadPreflight.gasEstimate)}`
+                      )}
+                    </div>
+                  )}
+
                   <p className={`text-xs text-center ${isDark ? 'text-slate-500' : 'text-[#A59D84]/60'}`}>
                     File is saved to Walrus, info to Sui blockchain.
                   </p>
@@ -1437,14 +2214,33 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
           </h2>
 
           <label className={`font-semibold mb-1 block ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-            Blob ID:
+            Reason:
+          </label>
+          <select
+            value={reportReason}
+            onChange={(e) => setReportReason(e.target.value as ReportReason | '')}
+            className={`w-full p-3 rounded-lg border-2 mb-4 ${
+              isDark
+                ? "bg-[#2d1f45] border-[#5C3E94] text-white"
+                : "bg-white border-[#A59D84] text-black"
+            }`}
+          >
+            <option value="">Select a reason</option>
+            {REPORT_REASONS.map((reason) => (
+              <option key={reason} value={reason}>{REPORT_REASON_LABELS[reason]}</option>
+            ))}
+          </select>
+
+          <label className={`font-semibold mb-1 block ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+            Details (optional):
           </label>
-          <input
-            type="text"
-            value={reportBlobId}
-            onChange={(e) => setReportBlobId(e.target.value)}
-            placeholder="e.g.: 0xabc123..."
-            className={`w-full p-3 rounded-lg border-2 mb-6 ${
+          <textarea
+            value={reportDetails}
+            onChange={(e) => setReportDetails(e.target.value)}
+            maxLength={280}
+            rows={3}
+            placeholder="e.g.: copied from the course's solution manual"
+            className={`w-full p-3 rounded-lg border-2 mb-6 resize-none ${
               isDark
                 ? "bg-[#2d1f45] border-[#5C3E94] text-white"
                 : "bg-white border-[#A59D84] text-black"
@@ -1463,8 +2259,10 @@ function DocumentsPage({ theme, setTheme }: DocumentsPageProps) {
 
             <button
               onClick={handleSubmitReport}
-              className="px-4 py-2 rounded-lg font-semibold bg-red-600 text-white hover:bg-red-500"
+              disabled={isReporting || !reportReason}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-semibold bg-red-600 text-white hover:bg-red-500 disabled:opacity-50"
             >
+              {isReporting && <Loader2 className="w-4 h-4 animate-spin" />}
               Send
             </button>
           </div>
@@ -8,47 +8,14 @@ import {
   useSuiClientQuery,
 } from '@mysten/dapp-kit';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Chrome, Wallet, Moon, Sun, Sparkles, Lock, Shield } from 'lucide-react';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import {
-  generateNonce,
-  generateRandomness,
-  jwtToAddress,
-} from '@mysten/sui/zklogin';
-import { jwtDecode } from 'jwt-decode';
+import { Chrome, KeyRound, Wallet, Moon, Sun, Sparkles, Lock, Shield } from 'lucide-react';
 import { useToast } from '../components/Toast';
+import { beginZkLogin, finishZkLogin, readZkLoginCallback } from '../lib/zklogin';
+import { getConfiguredProviders, type ZkLoginProviderId } from '../lib/zkloginProviders';
 
-// ---------- ENV ---------- //
-const GOOGLE_CLIENT_ID = import.meta.env
-  .VITE_GOOGLE_CLIENT_ID as string | undefined;
-const REDIRECT_URL =
-  (import.meta.env.VITE_ZKLOGIN_REDIRECT_URL as string | undefined) ??
-  window.location.origin;
-
-// ---------- JWT payload type ---------- //
-type JwtPayload = {
-  email?: string;
-  sub?: string;
-  name?: string;
-  picture?: string;
-  aud?: string | string[];
-};
-
-// ---------- Salt helpers ---------- //
-function hashcode(s: string): string {
-  let h = 0;
-  for (let i = 0; i < s.length; i++) {
-    h = (h << 5) - h + s.charCodeAt(i);
-    h |= 0;
-  }
-  return BigInt(h >>> 0).toString();
-}
-
-function getSaltFromJwt(payload: JwtPayload): string {
-  const base = payload.email ?? payload.sub ?? 'default-user';
-  return hashcode(base);
-}
-
+// ---------- zkLogin providers ---------- //
+// Only providers with a client ID in .env are listed
+const ZKLOGIN_PROVIDERS = getConfiguredProviders();
 
 // 🎨 Floating particles component
 function FloatingParticles({ isDark }: { isDark: boolean }) {
@@ -104,7 +71,8 @@ function LoginPage({ theme, setTheme }: LoginPageProps) {
   const currentAccount = useCurrentAccount();
   const { showToast } = useToast();
 
-  const [zkLoading, setZkLoading] = useState(false);
+  // Provider whose redirect is being prepared
+  const [zkLoading, setZkLoading] = useState<ZkLoginProviderId | null>(null);
   const [zkAddress, setZkAddress] = useState<string | null>(null);
   const [zkUserInfo, setZkUserInfo] = useState<{
     email?: string;
@@ -126,116 +94,47 @@ function LoginPage({ theme, setTheme }: LoginPageProps) {
     }
   }, [currentAccount, navigate]);
 
-  // 🔁 Capture id_token from URL on return from Google
+  // 🔁 Capture id_token from URL on return from the OAuth provider
   useEffect(() => {
-
-    // Google OAuth returns id_token in URL fragment (#), not in query string (?)
-    // Example: http://localhost:5173/#id_token=xxx&authuser=0
-    const hash = window.location.hash.substring(1); // Remove # character
-    const hashParams = new URLSearchParams(hash);
-    let idToken = hashParams.get('id_token');
-    
-    // Fallback: query string check
-    if (!idToken) {
-      const url = new URL(window.location.href);
-      idToken = url.searchParams.get('id_token');
-    }
-    
-    
+    const idToken = readZkLoginCallback();
     if (!idToken) return;
 
-    // Clear URL (remove hash and query parameters)
-    window.history.replaceState({}, '', window.location.pathname);
-
-    let decoded: JwtPayload;
-    try {
-      decoded = jwtDecode<JwtPayload>(idToken);
-    } catch (e) {
-      console.error('JWT decode error:', e);
-      setZkStatus('JWT could not be decoded.');
-      return;
-    }
-
-    const salt = getSaltFromJwt(decoded);
-    const address = jwtToAddress(idToken, salt);
-    setZkAddress(address);
-    setZkUserInfo({
-      email: decoded.email,
-      name: decoded.name,
-      picture: decoded.picture,
-    });
-    
-    // Save zkLogin info to sessionStorage (to be used in DocumentsPage)
-    sessionStorage.setItem('zklogin_address', address);
-    sessionStorage.setItem('zklogin_user_info', JSON.stringify({
-      email: decoded.email,
-      name: decoded.name,
-      picture: decoded.picture,
-    }));
+    // Salt comes from the configured provider (lib/salt.ts), so the address is resolved async
+    const completeLogin = async () => {
+      try {
+        // Saves the zkLogin session (JWT, salt, ephemeral key) for the app and lib/signer.ts
+        const { address, userInfo } = await finishZkLogin(idToken);
+        setZkAddress(address);
+        setZkUserInfo(userInfo);
+      } catch (e) {
+        console.error('zkLogin callback error:', e);
+        setZkStatus(`zkLogin failed: ${(e as Error).message}`);
+        return;
+      }
     
-    // Clear logout flag
-    localStorage.removeItem('wallet_logged_out');
-    
-    setZkStatus('zkLogin session active. You can transact on Sui with this address.');
+      // Clear logout flag
+      localStorage.removeItem('wallet_logged_out');
     
-    // 💾 Save to localStorage
-    localStorage.setItem('zkLoginAddress', address);
-    localStorage.setItem('zkLoginUserInfo', JSON.stringify({
-      email: decoded.email,
-      name: decoded.name,
-      picture: decoded.picture,
-    }));
+      setZkStatus('zkLogin session active. You can transact on Sui with this address.');
     
-    // 🚀 Auto-redirect after zkLogin
-    setTimeout(() => {
-      navigate('/app');
-    }, 2000);
-  }, [navigate]);
+      // 🚀 Auto-redirect after zkLogin
+      setTimeout(() => {
+        navigate('/app');
+      }, 2000);
+    };
 
-  // 🔐 zkLogin button
-  const handleZkLoginClick = async () => {
-    if (!GOOGLE_CLIENT_ID) {
-      showToast(
-        'VITE_GOOGLE_CLIENT_ID is not defined. Please check .env file.',
-        'error'
-      );
-      return;
-    }
+    completeLogin();
+  }, [navigate]);
 
+  // 🔐 zkLogin buttons
+  const handleZkLoginClick = async (providerId: ZkLoginProviderId) => {
     try {
-      setZkLoading(true);
-      const { epoch } = await suiClient.getLatestSuiSystemState();
-      const maxEpoch = Number(epoch) + 2;
-      const ephemeralKeyPair = new Ed25519Keypair();
-      const randomness = generateRandomness();
-      const nonce = generateNonce(
-        ephemeralKeyPair.getPublicKey(),
-        maxEpoch,
-        randomness,
-      );
-
-      sessionStorage.setItem(
-        'zklogin_ephemeral_data',
-        JSON.stringify({
-          maxEpoch,
-          randomness: randomness.toString(),
-          ephemeralSecretKey: ephemeralKeyPair.getSecretKey(),
-        }),
-      );
-
-      const params = new URLSearchParams({
-        client_id: GOOGLE_CLIENT_ID,
-        redirect_uri: REDIRECT_URL,
-        response_type: 'id_token',
-        scope: 'openid email profile',
-        nonce,
-      });
-      const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
-      window.location.href = authUrl;
+      setZkLoading(providerId);
+      await beginZkLogin(suiClient, providerId);
     } catch (err) {
       console.error('Error starting zkLogin:', err);
       showToast('An error occurred while starting zkLogin. Check the console.', 'error');
-      setZkLoading(false);
+      setZkLoading(null);
     }
   };
 
@@ -532,51 +431,63 @@ function LoginPage({ theme, setTheme }: LoginPageProps) {
 
             {/* Buttons */}
             <div className="space-y-4 relative z-10">
-              {/* 🌈 zkLogin button with shine effect */}
-              <motion.button
-                onClick={handleZkLoginClick}
-                disabled={zkLoading}
-                whileHover={{ scale: zkLoading ? 1 : 1.02 }}
-                whileTap={{ scale: zkLoading ? 1 : 0.98 }}
-                className="w-full inline-flex items-center justify-center gap-3 rounded-xl py-3 px-4 text-sm font-medium transition-all disabled:opacity-70 disabled:cursor-not-allowed relative overflow-hidden group text-white shadow-lg"
-                style={isDark ? {
-                  background: 'linear-gradient(135deg, #F25912 0%, #5C3E94 100%)',
-                  boxShadow: '0 10px 15px -3px rgba(242, 89, 18, 0.4)'
-                } : {
-                  background: 'linear-gradient(135deg, #A59D84 0%, #C1BAA1 100%)',
-                  boxShadow: '0 10px 15px -3px rgba(165, 157, 132, 0.4)'
-                }}
-              >
-                {/* Shine effect on hover */}
-                <motion.div
-                  className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
-                  initial={{ x: '-100%' }}
-                  whileHover={{ x: '100%' }}
-                  transition={{ duration: 0.6 }}
-                />
-
-                <AnimatePresence mode="wait">
-                  {zkLoading ? (
-                    <motion.span
-                      key="spinner"
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      exit={{ opacity: 0, scale: 0.8 }}
-                      className="h-4 w-4 border-2 border-t-transparent rounded-full animate-spin border-white"
-                    />
-                  ) : (
+              {/* 🌈 zkLogin buttons with shine effect, one per configured provider */}
+              {ZKLOGIN_PROVIDERS.length === 0 && (
+                <p className={`text-xs text-center ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
+                  No zkLogin provider is configured. Set a client ID in .env file.
+                </p>
+              )}
+              {ZKLOGIN_PROVIDERS.map((provider) => {
+                const ProviderIcon = provider.id === 'google' ? Chrome : KeyRound;
+                const loading = zkLoading === provider.id;
+                return (
+                  <motion.button
+                    key={provider.id}
+                    onClick={() => handleZkLoginClick(provider.id)}
+                    disabled={!!zkLoading}
+                    whileHover={{ scale: zkLoading ? 1 : 1.02 }}
+                    whileTap={{ scale: zkLoading ? 1 : 0.98 }}
+                    className="w-full inline-flex items-center justify-center gap-3 rounded-xl py-3 px-4 text-sm font-medium transition-all disabled:opacity-70 disabled:cursor-not-allowed relative overflow-hidden group text-white shadow-lg"
+                    style={isDark ? {
+                      background: 'linear-gradient(135deg, #F25912 0%, #5C3E94 100%)',
+                      boxShadow: '0 10px 15px -3px rgba(242, 89, 18, 0.4)'
+                    } : {
+                      background: 'linear-gradient(135deg, #A59D84 0%, #C1BAA1 100%)',
+                      boxShadow: '0 10px 15px -3px rgba(165, 157, 132, 0.4)'
+                    }}
+                  >
+                    {/* Shine effect on hover */}
                     <motion.div
-                      key="icon"
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      exit={{ opacity: 0, scale: 0.8 }}
-                    >
-                      <Chrome className="w-5 h-5 text-white" />
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-                <span className="relative z-10">Continue with Google (zkLogin)</span>
-              </motion.button>
+                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
+                      initial={{ x: '-100%' }}
+                      whileHover={{ x: '100%' }}
+                      transition={{ duration: 0.6 }}
+                    />
+
+                    <AnimatePresence mode="wait">
+                      {loading ? (
+                        <motion.span
+                          key="spinner"
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          exit={{ opacity: 0, scale: 0.8 }}
+                          className="h-4 w-4 border-2 border-t-transparent rounded-full animate-spin border-white"
+                        />
+                      ) : (
+                        <motion.div
+                          key="icon"
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          exit={{ opacity: 0, scale: 0.8 }}
+                        >
+                          <ProviderIcon className="w-5 h-5 text-white" />
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+                    <span className="relative z-10">Continue with {provider.name} (zkLogin)</span>
+                  </motion.button>
+                );
+              })}
 
               {/* Divider */}
               <div className={`flex items-center gap-3 text-[11px] ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
@@ -1,11 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Moon, Sun, FileText, Award, Trophy, Medal, ArrowLeft, Edit2, Check, X, Heart, Loader2, Copy } from 'lucide-react';
+import { Moon, Sun, FileText, Award, Trophy, Medal, ArrowLeft, Edit2, Check, X, Heart, Loader2, Copy, Lock } from 'lucide-react';
 import { CheckCircle } from 'lucide-react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useDocuments } from '../lib/hooks';
+import { useAuth } from '../lib/auth';
+import { useDocuments, useModeratorCap, useReadDocumentFile } from '../lib/hooks';
 import { useToast } from '../components/Toast';
+import { formatBytes, WalrusError } from '../lib/walrus';
+import { saveDocumentFile } from '../lib/files';
+import { DocumentDecryptionError } from '../lib/seal';
+import { BundleError, isBundle, saveBundleZip } from '../lib/bundles';
+import { FileTypeIcon } from '../components/FileTypeIcon';
+import { AccessGroupManager } from '../components/AccessGroupManager';
+import { DocumentOwnerControls } from '../components/DocumentOwnerControls';
+import { ModerationQueue } from '../components/ModerationQueue';
 
 interface NFT {
   id: string;
@@ -21,6 +29,14 @@ interface Project {
   likes: number;
   blobId: string;
   category?: string;
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  uploader: string;
+  encryptionId: string | null;
+  allowedReaders: string[];
+  allowedGroups: string[];
+  hidden: boolean;
 }
 
 type ProfilePageProps = {
@@ -36,29 +52,28 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
   const [aboutMe, setAboutMe] = useState('I am a 42 student. I specialize in C, C++ and system programming. I am interested in Blockchain and Web3 technologies.');
   const [isEditingAbout, setIsEditingAbout] = useState(false);
   const [tempAboutMe, setTempAboutMe] = useState(aboutMe);
-  const [profileAddress, setProfileAddress] = useState<string | null>(null);
-  const [userInfo, setUserInfo] = useState<any>(null);
   
   const isDark = theme === 'dark';
-  const [isOwner, setIsOwner] = useState(false);
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const [openedProject, setSelectedProject] = useState<Project | null>(null);
   const [copiedBlobId, setCopiedBlobId] = useState(false);
 
-  // Wallet and blockchain hooks
-  const account = useCurrentAccount();
-  const { documents: blockchainDocs, loading: docsLoading, refetch: refetchDocuments } = useDocuments();
-
-  // Fetch documents on initial load
-  useEffect(() => {
-    refetchDocuments();
-  }, []);
-
-  // Filter user's documents
-  const currentUserAddress = account?.address || sessionStorage.getItem('zklogin_address');
-  const viewingAddress = address || currentUserAddress;
+  // Active identity (wallet or zkLogin) and blockchain hooks
+  const auth = useAuth();
+  // Every page is needed here, since documents are filtered by uploader below.
+  // Hidden documents are kept so their uploader can still edit or delete them.
+  const { documents: blockchainDocs, loading: docsLoading } = useDocuments({ loadAll: true, includeHidden: true });
+  const readDocumentFile = useReadDocumentFile();
+  const { moderatorCapId } = useModeratorCap(auth.address || undefined);
+
+  // Without an address in the URL, the current user's own profile is shown
+  const profileAddress = address || auth.address;
+  const isOwner = !!auth.address && profileAddress === auth.address;
+  // Display info is only known for the logged-in user
+  const userInfo = isOwner ? auth.displayInfo : null;
   
+  // Filter user's documents
   const userProjects = blockchainDocs
-    .filter(doc => doc.uploader === viewingAddress)
+    .filter(doc => doc.uploader === profileAddress && (isOwner || !doc.hidden))
     .map(doc => ({
       id: doc.id,
       title: doc.title,
@@ -66,8 +81,22 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
       likes: doc.votes,
       blobId: doc.walrusBlobId,
       category: doc.category,
+      fileName: doc.fileName,
+      mimeType: doc.mimeType,
+      fileSize: doc.fileSize,
+      uploader: doc.uploader,
+      encryptionId: doc.encryptionId,
+      allowedReaders: doc.allowedReaders,
+      allowedGroups: doc.allowedGroups,
+      hidden: doc.hidden,
     }));
 
+  // Read the opened project from the live list so edits show in the modal
+  const selectedProject = openedProject
+    ? userProjects.find(project => project.id === openedProject.id) ?? openedProject
+    : null;
+  const selectedLibraryDoc = selectedProject ? blockchainDocs.find(doc => doc.id === selectedProject.id) : undefined;
+
   // User's total points (total likes received)
   const userPoints = userProjects.reduce((total, project) => total + project.likes, 0);
 
@@ -130,73 +159,27 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
     }
   };
 
-  // Download file
-  const downloadWalrusFile = async (blobId: string, filename: string) => {
+  // Download file; bundles as a zip of all their files
+  const downloadWalrusFile = async (project: Project) => {
     try {
-      const walrusUrl = `https://aggregator.walrus-testnet.walrus.space/v1/blobs/${blobId}`;
-      const response = await fetch(walrusUrl);
-      if (!response.ok) throw new Error('Download failed');
-      
-      const blob = await response.blob();
-      let finalFilename = filename;
-      if (!filename.includes('.')) {
-        finalFilename = `${filename}.pdf`;
+      if (isBundle(project)) {
+        await saveBundleZip({ ...project, walrusBlobId: project.blobId }, readDocumentFile);
+        return;
       }
-      
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = finalFilename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      // Falls back to the storage nodes if no aggregator serves the blob; encrypted files are decrypted
+      const blob = await readDocumentFile({ ...project, walrusBlobId: project.blobId });
+      await saveDocumentFile(blob, project);
     } catch (error) {
       console.error('Download error:', error);
-      showToast('File could not be downloaded. Please try again.', 'error');
+      showToast(
+        error instanceof WalrusError || error instanceof DocumentDecryptionError || error instanceof BundleError
+          ? error.message
+          : 'File could not be downloaded. Please try again.',
+        'error'
+      );
     }
   };
 
-  // Get current logged-in user's address from localStorage
-  useEffect(() => {
-    const zkAddress = localStorage.getItem('zkLoginAddress');
-    const zkUserInfo = localStorage.getItem('zkLoginUserInfo');
-    
-    // If no address in URL, show current user's profile
-    if (!address && zkAddress) {
-      setProfileAddress(zkAddress);
-      if (zkUserInfo) {
-        try {
-          setUserInfo(JSON.parse(zkUserInfo));
-        } catch (e) {
-          console.error('Failed to parse user info:', e);
-        }
-      }
-    } else if (address) {
-      // Show specific user's profile
-      setProfileAddress(address);
-      // TODO: Fetch user info from blockchain/API for this address
-      // For now, if it's the current user, show their info
-      if (zkAddress === address && zkUserInfo) {
-        try {
-          setUserInfo(JSON.parse(zkUserInfo));
-        } catch (e) {
-          console.error('Failed to parse user info:', e);
-        }
-      }
-    }
-    
-    // Check if logged-in user is the profile owner
-    if (zkAddress && address && zkAddress === address) {
-      setIsOwner(true);
-    } else if (!address && zkAddress) {
-      // If no address in URL and user is logged in, they're viewing their own profile
-      setIsOwner(true);
-    } else {
-      setIsOwner(false);
-    }
-  }, [address]);
-
   return (
     <div
       className="min-h-screen w-full font-sans transition-colors duration-300 overflow-auto"
@@ -487,6 +470,40 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
           </div>
         </motion.div>
 
+        {/* Access Groups - own profile only */}
+        {isOwner && auth.address && (
+          <motion.div
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.25 }}
+            className={`p-6 rounded-2xl border-2 ${
+              isDark ? 'bg-[#412B6B] border-[#5C3E94]' : 'bg-white border-[#A59D84]'
+            }`}
+          >
+            <h3 className={`text-2xl font-bold mb-4 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}>
+              My Access Groups
+            </h3>
+            <AccessGroupManager owner={auth.address} isDark={isDark} />
+          </motion.div>
+        )}
+
+        {/* Moderation Queue - moderators only */}
+        {isOwner && moderatorCapId && (
+          <motion.div
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.25 }}
+            className={`p-6 rounded-2xl border-2 ${
+              isDark ? 'bg-[#412B6B] border-[#5C3E94]' : 'bg-white border-[#A59D84]'
+            }`}
+          >
+            <h3 className={`text-2xl font-bold mb-4 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}>
+              Moderation Queue
+            </h3>
+            <ModerationQueue moderatorCapId={moderatorCapId} isDark={isDark} />
+          </motion.div>
+        )}
+
         {/* User Projects */}
         <motion.div
           initial={{ y: 20, opacity: 0 }}
@@ -546,10 +563,15 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
                       isDark ? 'bg-[#5C3E94]/30' : 'bg-[#A59D84]/20'
                     }`}
                   >
-                    <FileText className={`w-5 h-5 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                    <FileTypeIcon
+                      mimeType={project.mimeType}
+                      fileName={project.fileName}
+                      className={`w-5 h-5 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}
+                    />
                   </div>
                   <div className="flex-1 min-w-0">
-                    <h4 className={`font-bold truncate ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
+                    <h4 className={`flex items-center gap-1 font-bold truncate ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
+                      {project.encryptionId && <Lock aria-label="Encrypted" className="w-3 h-3 shrink-0" />}
                       {project.title}
                     </h4>
                     {project.category && (
@@ -559,6 +581,9 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
                         {project.category}
                       </span>
                     )}
+                    {project.hidden && (
+                      <span className="ml-1 text-xs px-2 py-0.5 rounded bg-red-500/15 text-red-500">Hidden</span>
+                    )}
                   </div>
                 </div>
                 <p className={`text-sm mb-3 line-clamp-2 ${isDark ? 'text-slate-400' : 'text-[#A59D84]'}`}>
@@ -630,7 +655,11 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
                     <div className={`w-16 h-16 rounded-xl flex items-center justify-center ${
                       isDark ? 'bg-[#5C3E94]/30' : 'bg-[#A59D84]/20'
                     }`}>
-                      <FileText className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`} />
+                      <FileTypeIcon
+                        mimeType={selectedProject.mimeType}
+                        fileName={selectedProject.fileName}
+                        className={`w-8 h-8 ${isDark ? 'text-[#F25912]' : 'text-[#A59D84]'}`}
+                      />
                     </div>
                     <div>
                       <h2 className={`text-3xl font-bold ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>
@@ -645,6 +674,22 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
                       )}
                     </div>
                   </div>
+
+                  {selectedProject.hidden && (
+                    <p className="mb-4 text-sm text-red-500">
+                      A moderator hid this document, so it is not listed in the library. You can still edit or delete it.
+                    </p>
+                  )}
+
+                  {/* Edit / delete - own documents only */}
+                  {isOwner && selectedLibraryDoc && (
+                    <DocumentOwnerControls
+                      key={selectedLibraryDoc.id}
+                      document={selectedLibraryDoc}
+                      isDark={isDark}
+                      onDeleted={() => setSelectedProject(null)}
+                    />
+                  )}
                 </div>
 
                 {/* Modal Body */}
@@ -695,15 +740,16 @@ function ProfilePage({ theme, setTheme }: ProfilePageProps) {
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={() => downloadWalrusFile(selectedProject.blobId, selectedProject.title)}
+                      onClick={() => downloadWalrusFile(selectedProject)}
                       className={`flex-1 flex items-center justify-center gap-3 py-4 px-6 rounded-xl text-lg font-semibold shadow-lg ${
                         isDark
                           ? 'bg-gradient-to-r from-green-600 to-green-500 text-white hover:from-green-500 hover:to-green-400'
                           : 'bg-gradient-to-r from-green-500 to-green-400 text-white hover:from-green-400 hover:to-green-300'
                       }`}
                     >
-                      <FileText className="w-6 h-6" />
-                      Download (.pdf)
+                      <FileTypeIcon mimeType={selectedProject.mimeType} fileName={selectedProject.fileName} className="w-6 h-6" />
+                      {isBundle(selectedProject) ? 'Download all as zip' : 'Download'}
+                      {selectedProject.fileSize != null && ` (${formatBytes(selectedProject.fileSize)})`}
                     </motion.button>
                   </div>
 
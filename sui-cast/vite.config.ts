@@ -6,6 +6,7 @@ export default defineConfig({
   plugins: [react()],
   server: {
     proxy: {
+      // Default publishers of src/lib/walrus.ts (they do not send CORS headers)
       // Walrus Publisher API proxy - Primary (Mysten Labs)
       '/walrus-api': {
         target: 'https://publisher.walrus-testnet.walrus.space',